@@ -0,0 +1,16 @@
+import { type RoomAction, RoomError, actInRoom } from "@/lib/server/rooms";
+import { readBody, respond } from "../../respond";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: Promise<{ code: string }> };
+
+export async function POST(request: Request, { params }: Context) {
+  const { code } = await params;
+  return respond(async () => {
+    const body = (await readBody(request)) as { token?: string; action?: RoomAction };
+    if (!body.action) throw new RoomError("No action sent");
+    return actInRoom(code, String(body.token ?? ""), body.action);
+  });
+}
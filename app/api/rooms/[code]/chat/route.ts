@@ -0,0 +1,17 @@
+import type { ChatPost } from "@/lib/ludo";
+import { RoomError, chatInRoom } from "@/lib/server/rooms";
+import { readBody, respond } from "../../respond";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: Promise<{ code: string }> };
+
+export async function POST(request: Request, { params }: Context) {
+  const { code } = await params;
+  return respond(async () => {
+    const body = (await readBody(request)) as { token?: string; post?: ChatPost };
+    if (!body.post) throw new RoomError("Nothing to send");
+    return chatInRoom(code, String(body.token ?? ""), body.post);
+  });
+}
@@ -0,0 +1,63 @@
+import { type Room, type RoomSnapshot, getRoom, subscribe } from "@/lib/server/rooms";
+import { errorResponse } from "../../respond";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Keeps idle connections from being closed by proxies and sleeping phones.
+const HEARTBEAT_MS = 15_000;
+
+type Context = { params: Promise<{ code: string }> };
+
+/**
+ * Server-sent events: the current snapshot, then one per change. Seated
+ * players pass `?token=` so the room can show them as connected.
+ */
+export async function GET(request: Request, { params }: Context) {
+  const { code } = await params;
+  let room: Room;
+  try {
+    room = getRoom(code);
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  const encoder = new TextEncoder();
+  let stopped = false;
+  let stop = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (snapshot: RoomSnapshot) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(snapshot)}\n\n`));
+      const heartbeat = setInterval(
+        () => controller.enqueue(encoder.encode(": ping\n\n")),
+        HEARTBEAT_MS
+      );
+      const token = new URL(request.url).searchParams.get("token") ?? undefined;
+      const unsubscribe = subscribe(room.code, send, token);
+      stop = () => {
+        if (stopped) return;
+        stopped = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      // cancel() may have run first, and a cancelled stream throws on close().
+      request.signal.addEventListener("abort", () => {
+        if (stopped) return;
+        stop();
+        controller.close();
+      });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import type { PlayerColor } from "@/lib/ludo";
+import { joinRoom, rejoinRoom } from "@/lib/server/rooms";
+import { readBody, respond } from "../../respond";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: Promise<{ code: string }> };
+
+export async function POST(request: Request, { params }: Context) {
+  const { code } = await params;
+  return respond(async () => {
+    const body = (await readBody(request)) as {
+      color?: PlayerColor;
+      name?: string;
+      token?: string;
+    };
+    // A token means someone coming back to the seat they already hold.
+    if (body.token) return rejoinRoom(code, body.token);
+    return joinRoom(code, body.color as PlayerColor, String(body.name ?? ""));
+  });
+}
@@ -0,0 +1,12 @@
+import { getRoom, snapshotOf } from "@/lib/server/rooms";
+import { respond } from "../respond";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Context = { params: Promise<{ code: string }> };
+
+export async function GET(_request: Request, { params }: Context) {
+  const { code } = await params;
+  return respond(() => snapshotOf(getRoom(code)));
+}
@@ -0,0 +1,30 @@
+import { RoomError } from "@/lib/server/rooms";
+
+/** The JSON answer for a refused room request; anything else is rethrown. */
+export function errorResponse(error: unknown) {
+  if (error instanceof RoomError) {
+    return Response.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof SyntaxError) {
+    return Response.json({ error: "Request body is not valid JSON" }, { status: 400 });
+  }
+  throw error;
+}
+
+/** The JSON body of a room request, which must be an object. */
+export async function readBody(request: Request): Promise<Record<string, unknown>> {
+  const body: unknown = await request.json();
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new RoomError("Request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+/** Runs a room request and answers with its result as JSON. */
+export async function respond(handler: () => unknown | Promise<unknown>) {
+  try {
+    return Response.json(await handler());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,17 @@
+import type { GameSetup } from "@/lib/ludo";
+import { type TurnTimer, createRoom, snapshotOf } from "@/lib/server/rooms";
+import { respond } from "./respond";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  return respond(async () => {
+    // createRoom checks both before use; this only names what a client sends.
+    const body = (await request.json()) as {
+      setup?: Partial<GameSetup>;
+      timer?: TurnTimer | null;
+    } | null;
+    return snapshotOf(createRoom(body?.setup, body?.timer));
+  });
+}
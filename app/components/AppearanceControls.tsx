@@ -0,0 +1,65 @@
+import {
+  type PaletteId,
+  type SurfaceId,
+  type TokenSkin,
+  PALETTES,
+  SURFACES,
+  TOKEN_SKINS,
+} from "./palette";
+import { useAppearance } from "./preferences";
+
+const select = "rounded-full border border-white/15 bg-slate-900 px-3 py-1 text-white/80";
+
+/** Palette, token skin and board surface pickers; changes apply and persist at once. */
+export default function AppearanceControls() {
+  const [{ palette, tokens, surface }, update] = useAppearance();
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={palette}
+        onChange={(e) => update({ palette: e.target.value as PaletteId })}
+        aria-label="Colours"
+        className={select}
+      >
+        <optgroup label="Colours">
+          {PALETTES.filter((p) => !p.colourBlindSafe).map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </optgroup>
+        <optgroup label="Colour-blind safe">
+          {PALETTES.filter((p) => p.colourBlindSafe).map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </optgroup>
+      </select>
+      <select
+        value={tokens}
+        onChange={(e) => update({ tokens: e.target.value as TokenSkin })}
+        aria-label="Token marks"
+        className={select}
+      >
+        {TOKEN_SKINS.map((skin) => (
+          <option key={skin.id} value={skin.id}>
+            Tokens: {skin.name.toLowerCase()}
+          </option>
+        ))}
+      </select>
+      <select
+        value={surface}
+        onChange={(e) => update({ surface: e.target.value as SurfaceId })}
+        aria-label="Board surface"
+        className={select}
+      >
+        {SURFACES.map((s) => (
+          <option key={s.id} value={s.id}>
+            Board: {s.name.toLowerCase()}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
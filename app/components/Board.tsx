@@ -0,0 +1,438 @@
+import { type KeyboardEvent, type ReactNode, useMemo, useState } from "react";
+import BoardBackdrop from "./BoardBackdrop";
+import {
+  type Surface,
+  type TokenShape,
+  type TokenSkin,
+  TOKEN_PATTERNS,
+  TOKEN_SHAPES,
+} from "./palette";
+import {
+  type AnimationFrame,
+  type BoardTheme,
+  type GameState,
+  type MoveOption,
+  type Player,
+  type PlayerColor,
+  type Token,
+  boardLayout,
+  clampSteps,
+  defaultLabel,
+  describeMove,
+  describeToken,
+  movePreview,
+  movingPlayer,
+  tokenPhase,
+} from "@/lib/ludo";
+
+type Props = {
+  state: GameState;
+  /** Legal moves for the dice on the table; their tokens glow. */
+  moves: MoveOption[];
+  /** False while input is locked (dice animating, bot turn, replay, not your seat). */
+  interactive: boolean;
+  colors: Record<PlayerColor, string>;
+  /** What tokens show besides their colour. */
+  skin: TokenSkin;
+  surface: Surface;
+  theme: BoardTheme;
+  /** The move animation frame to draw over the game, if one is playing. */
+  animation: AnimationFrame | null;
+  /** Counts frames so each hop restarts its bounce. */
+  animationStep: number;
+  reducedMotion: boolean;
+  /** A token to point the player at, as the tutorial does. */
+  highlight?: string | null;
+  onMove: (tokenId: string) => void;
+};
+
+const SHAPE_ICONS: Record<TokenShape, ReactNode> = {
+  circle: <circle cx={12} cy={12} r={9} />,
+  square: <rect x={4} y={4} width={16} height={16} />,
+  triangle: <polygon points="12,2 22,20 2,20" />,
+  diamond: <polygon points="12,1 23,12 12,23 1,12" />,
+};
+
+export default function Board({
+  state,
+  moves,
+  interactive,
+  colors,
+  skin,
+  surface,
+  theme,
+  animation,
+  animationStep,
+  reducedMotion,
+  highlight = null,
+  onMove,
+}: Props) {
+  const layout = useMemo(() => boardLayout(theme), [theme]);
+  // The movable token being hovered or focused, whose move is previewed.
+  const [previewId, setPreviewId] = useState<string | null>(null);
+
+  const pointFor = (player: Player, steps: number) => {
+    const info = tokenPhase(steps, player.startIndex);
+    if (info.phase === "track") return layout.track[info.trackIndex];
+    if (info.phase === "final") return layout.finalLanes[player.color][info.finalIndex];
+    return layout.finish[player.color];
+  };
+
+  const tileForToken = (
+    token: Token,
+    player: Player,
+    idx: number,
+    clickable: boolean,
+    offset = { x: 0, y: 0 },
+    stackSize = 1,
+    stackOrder = 0,
+    isCurrentTurn = false
+  ) => {
+    const info = tokenPhase(token.steps, player.startIndex);
+    const label = token.id.split("-")[1];
+    const isReady =
+      clickable &&
+      moves.some((m) => m.tokenId === token.id && m.nextSteps === clampSteps(m.nextSteps));
+    const pulse = isReady ? (reducedMotion ? "ring-4 ring-white" : "animate-token-wobble") : "";
+    const hopping = animation?.hop === token.id;
+    const name = describeToken(
+      state,
+      token.id,
+      clickable ? moves.find((m) => m.tokenId === token.id) : undefined
+    );
+    const retreating = !!animation?.retreating?.includes(token.id);
+    const glow =
+      highlight === token.id
+        ? "ring-4 ring-amber-300 ring-offset-2 ring-offset-slate-900"
+        : isCurrentTurn
+        ? "shadow-[0_0_0_6px_rgba(255,255,255,0.18)] ring-2 ring-white/60"
+        : "";
+    const base =
+      "relative h-6 w-6 sm:h-9 sm:w-9 rounded-full border-2 border-white/80 shadow-md flex items-center justify-center text-[10px] sm:text-xs font-bold";
+    const style = {
+      backgroundColor: colors[player.color],
+      color: "#0b1224",
+      ...(skin === "pattern" ? TOKEN_PATTERNS[player.color] : {}),
+    };
+    const content = (
+      <div
+        className={`${base} ${pulse} ${glow} ${hopping ? "animate-token-hop" : ""} ${
+          retreating ? "opacity-70 grayscale" : ""
+        }`}
+        style={style}
+        key={hopping ? `${token.id}-${animationStep}` : token.id}
+      >
+        {skin === "shape" && (
+          <svg
+            viewBox="0 0 24 24"
+            className="absolute inset-[15%] h-[70%] w-[70%]"
+            fill="rgba(11, 18, 36, 0.35)"
+            aria-hidden="true"
+          >
+            {SHAPE_ICONS[TOKEN_SHAPES[player.color]]}
+          </svg>
+        )}
+        <span className="relative">{label}</span>
+      </div>
+    );
+    const hitboxPadding = stackSize > 1 ? 14 : 10;
+    const wrapperClass =
+      "absolute select-none rounded-full focus:outline-none focus-visible:ring-4 focus-visible:ring-white active:scale-[0.97] transition-transform touch-manipulation";
+    const buildStyle = (pos: { x: number; y: number }) => {
+      const turnBonus = hopping || retreating ? 200 : isCurrentTurn ? 100 : 0;
+      const transition = animation
+        ? `left ${animation.ms}ms linear, top ${animation.ms}ms linear, transform 0.2s ease`
+        : reducedMotion
+        ? "none"
+        : "left 0.45s ease, top 0.45s ease, transform 0.45s ease";
+      return {
+        left: `${pos.x}%`,
+        top: `${pos.y}%`,
+        transform: `translate(-50%, -50%) translate(${offset.x}px, ${offset.y}px)`,
+        padding: `${hitboxPadding}px`,
+        zIndex: 50 + stackSize - stackOrder + turnBonus,
+        transition,
+      };
+    };
+
+    if (info.phase === "home") {
+      const pos = layout.homeSlots[player.color][idx % 4];
+      return (
+        <button
+          key={token.id}
+          onClick={() => onMove(token.id)}
+          disabled={!isReady}
+          aria-label={name}
+          data-token={token.id}
+          onMouseEnter={() => isReady && setPreviewId(token.id)}
+          onFocus={() => isReady && setPreviewId(token.id)}
+          onMouseLeave={() => setPreviewId((id) => (id === token.id ? null : id))}
+          onBlur={() => setPreviewId((id) => (id === token.id ? null : id))}
+          className={wrapperClass}
+          style={buildStyle(pos)}
+        >
+          {content}
+        </button>
+      );
+    }
+
+    if (info.phase === "track") {
+      const pt = layout.track[info.trackIndex];
+      return (
+        <button
+          key={token.id}
+          onClick={() => onMove(token.id)}
+          disabled={!isReady}
+          aria-label={name}
+          data-token={token.id}
+          onMouseEnter={() => isReady && setPreviewId(token.id)}
+          onFocus={() => isReady && setPreviewId(token.id)}
+          onMouseLeave={() => setPreviewId((id) => (id === token.id ? null : id))}
+          onBlur={() => setPreviewId((id) => (id === token.id ? null : id))}
+          className={wrapperClass}
+          style={buildStyle(pt)}
+        >
+          {content}
+        </button>
+      );
+    }
+
+    if (info.phase === "final") {
+      const lane = layout.finalLanes[player.color][info.finalIndex];
+      return (
+        <button
+          key={token.id}
+          onClick={() => onMove(token.id)}
+          disabled={!isReady}
+          aria-label={name}
+          data-token={token.id}
+          onMouseEnter={() => isReady && setPreviewId(token.id)}
+          onFocus={() => isReady && setPreviewId(token.id)}
+          onMouseLeave={() => setPreviewId((id) => (id === token.id ? null : id))}
+          onBlur={() => setPreviewId((id) => (id === token.id ? null : id))}
+          className={wrapperClass}
+          style={buildStyle(lane)}
+        >
+          {content}
+        </button>
+      );
+    }
+
+    return (
+      <div
+        key={token.id}
+        role="img"
+        aria-label={name}
+        className={wrapperClass}
+        style={buildStyle(layout.finish[player.color])}
+      >
+        {content}
+      </div>
+    );
+  };
+
+  const renderTokens = (() => {
+    const stackOffsets = (count: number) => {
+      if (count === 2) return [{ x: -12, y: -10 }, { x: 12, y: 10 }];
+      if (count === 3)
+        return [
+          { x: -14, y: -8 },
+          { x: 14, y: -8 },
+          { x: 0, y: 14 },
+        ];
+      if (count >= 4)
+        return [
+          { x: -14, y: -10 },
+          { x: 14, y: -10 },
+          { x: -14, y: 10 },
+          { x: 14, y: 10 },
+        ].concat(Array.from({ length: count - 4 }, () => ({ x: 0, y: 0 })));
+      return [{ x: 0, y: 0 }];
+    };
+
+    const placements = state.players.flatMap((player) =>
+      player.tokens.map((placed, idx) => {
+        // Mid-animation tokens are drawn where the frame has them.
+        const token =
+          animation && placed.id in animation.positions
+            ? { ...placed, steps: animation.positions[placed.id] }
+            : placed;
+        const info = tokenPhase(token.steps, player.startIndex);
+        const clickable =
+          !!state.dice && interactive && moves.some((m) => m.tokenId === token.id);
+
+        if (info.phase === "home") {
+          const pos = layout.homeSlots[player.color][idx % 4];
+          return { token, player, idx, clickable, pos, key: `home-${player.color}-${idx % 4}` };
+        }
+        if (info.phase === "track") {
+          const pt = layout.track[info.trackIndex];
+          return { token, player, idx, clickable, pos: pt, key: `track-${info.trackIndex}` };
+        }
+        if (info.phase === "final") {
+          const lane = layout.finalLanes[player.color][info.finalIndex];
+          return { token, player, idx, clickable, pos: lane, key: `final-${player.color}-${info.finalIndex}` };
+        }
+        return {
+          token,
+          player,
+          idx,
+          clickable,
+          pos: layout.finish[player.color],
+          key: `done-${player.color}`,
+        };
+      })
+    );
+
+    const grouped = placements.reduce((map, item) => {
+      const list = map.get(item.key) ?? [];
+      list.push(item);
+      map.set(item.key, list);
+      return map;
+    }, new Map<string, typeof placements>());
+
+    return Array.from(grouped.values()).flatMap((group) => {
+      const offsets = stackOffsets(group.length);
+      const sortedGroup = [...group].sort((a, b) => {
+        const aTurn = a.player.color === state.currentPlayer ? 1 : 0;
+        const bTurn = b.player.color === state.currentPlayer ? 1 : 0;
+        if (aTurn !== bTurn) return bTurn - aTurn; // current turn tokens render on top
+        return 0;
+      });
+      return sortedGroup.map((item, order) =>
+        tileForToken(
+          item.token,
+          item.player,
+          item.idx,
+          item.clickable,
+          offsets[order] ?? { x: 0, y: 0 },
+          group.length,
+          order,
+          item.player.color === state.currentPlayer
+        )
+      );
+    });
+  })();
+
+  const previewOption =
+    interactive && !animation && state.dice
+      ? moves.find((m) => m.tokenId === previewId)
+      : undefined;
+
+  const renderPreview = () => {
+    if (!previewOption) return null;
+    const mover = movingPlayer(state);
+    const preview = movePreview(state, previewOption);
+    const destination = pointFor(mover, previewOption.nextSteps);
+    const size = `${layout.cellSize * 1.1}%`;
+    const at = (pt: { x: number; y: number }) => ({ left: `${pt.x}%`, top: `${pt.y}%` });
+    const marker = "pointer-events-none absolute -translate-x-1/2 -translate-y-1/2 rounded-full";
+    return (
+      <>
+        {preview.path.slice(0, -1).map((steps, idx) => (
+          <div
+            key={`path-${idx}`}
+            className={`${marker} h-2 w-2 border border-white/70`}
+            style={{ ...at(pointFor(mover, steps)), backgroundColor: colors[mover.color], zIndex: 20 }}
+          />
+        ))}
+        <div
+          className={`${marker} border-4 ${
+            preview.threats.length ? "border-amber-300" : "border-white"
+          }`}
+          style={{ ...at(destination), width: size, height: size, zIndex: 20 }}
+        />
+        {preview.captures.map((id) => {
+          const owner = state.players.find((p) => p.tokens.some((t) => t.id === id))!;
+          const steps = owner.tokens.find((t) => t.id === id)!.steps;
+          if (steps === null) return null;
+          return (
+            <div
+              key={`capture-${id}`}
+              className={`${marker} border-4 border-dashed border-rose-400`}
+              style={{ ...at(pointFor(owner, steps)), width: size, height: size, zIndex: 300 }}
+            />
+          );
+        })}
+        <div
+          className="pointer-events-none absolute -translate-x-1/2 rounded-lg bg-slate-900/90 px-2 py-1 text-[11px] text-white shadow-lg"
+          style={{
+            left: `${Math.min(Math.max(destination.x, 15), 85)}%`,
+            top: `${destination.y + layout.cellSize}%`,
+            zIndex: 350,
+          }}
+        >
+          <p className="whitespace-nowrap">{describeMove(state, previewOption)}</p>
+          {preview.threats.length > 0 && (
+            <p className="whitespace-nowrap text-amber-300">
+              ⚠ {preview.threats.map(defaultLabel).join(", ")} can hit this next roll
+            </p>
+          )}
+        </div>
+      </>
+    );
+  };
+
+  // Arrow keys cycle through the tokens that can move; Tab reaches them too.
+  const cycleTokens = (event: KeyboardEvent<HTMLDivElement>) => {
+    const delta = { ArrowRight: 1, ArrowDown: 1, ArrowLeft: -1, ArrowUp: -1 }[event.key];
+    if (!delta) return;
+    const buttons = Array.from(
+      event.currentTarget.querySelectorAll<HTMLButtonElement>("button[data-token]:not(:disabled)")
+    );
+    if (!buttons.length) return;
+    event.preventDefault();
+    const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    const next = current === -1 ? (delta > 0 ? 0 : buttons.length - 1) : current + delta;
+    buttons[(next + buttons.length) % buttons.length].focus();
+  };
+
+  return (
+    <div
+      className="relative mx-auto aspect-square max-w-[720px] overflow-hidden rounded-2xl border border-white/10"
+      style={{ backgroundColor: surface.base }}
+    >
+      <BoardBackdrop layout={layout} rules={state.rules} colors={colors} surface={surface} />
+      {renderPreview()}
+      <div
+        className="absolute inset-0 focus:outline-none focus-visible:ring-2 focus-visible:ring-white/60"
+        role="group"
+        aria-label="Ludo board. Arrow keys choose a token that can move, Enter moves it."
+        tabIndex={0}
+        onKeyDown={cycleTokens}
+      >
+        {renderTokens}
+      </div>
+      {animation?.impact !== undefined && (
+        <div
+          key={`impact-${animation.impact}`}
+          className={`pointer-events-none absolute h-16 w-16 -translate-x-1/2 -translate-y-1/2 rounded-full border-4 border-rose-400 ${
+            reducedMotion ? "opacity-60" : "animate-capture-flash"
+          }`}
+          style={{
+            left: `${layout.track[animation.impact].x}%`,
+            top: `${layout.track[animation.impact].y}%`,
+          }}
+        />
+      )}
+      {animation?.celebrate && (
+        <div
+          className="pointer-events-none absolute -translate-x-1/2 -translate-y-1/2 text-center"
+          style={{
+            left: `${layout.finish[animation.celebrate].x}%`,
+            top: `${layout.finish[animation.celebrate].y}%`,
+            zIndex: 400,
+          }}
+        >
+          <div
+            className={`h-24 w-24 rounded-full border-4 ${
+              reducedMotion ? "opacity-80" : "animate-finish-burst"
+            }`}
+            style={{ borderColor: colors[animation.celebrate] }}
+          />
+          <p className="absolute inset-0 flex items-center justify-center text-3xl">★</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import {
+  type BoardLayout,
+  type PlayerColor,
+  type RuleSet,
+  GRID_SIZE,
+  SEAT_ORDER,
+  START_INDICES,
+  crossFinalCells,
+  crossFinishTriangles,
+  crossTrackCells,
+  crossYards,
+  isSafeCell,
+} from "@/lib/ludo";
+import type { Surface } from "./palette";
+
+type Props = {
+  layout: BoardLayout;
+  rules: RuleSet;
+  colors: Record<PlayerColor, string>;
+  surface: Surface;
+};
+
+/** Five-pointed star centred in a cell, for safe squares. */
+function starPoints(cx: number, cy: number, outer: number) {
+  const inner = outer * 0.45;
+  return Array.from({ length: 10 }, (_, i) => {
+    const radius = i % 2 ? inner : outer;
+    const angle = (i * Math.PI) / 5 - Math.PI / 2;
+    return `${cx + radius * Math.cos(angle)},${cy + radius * Math.sin(angle)}`;
+  }).join(" ");
+}
+
+function CrossBackdrop({ rules, colors, surface }: Omit<Props, "layout">) {
+  const track = crossTrackCells();
+  const finals = crossFinalCells();
+  const yards = crossYards();
+  const triangles = crossFinishTriangles();
+  const startColor = new Map(SEAT_ORDER.map((color) => [START_INDICES[color], color]));
+
+  return (
+    <svg
+      viewBox={`0 0 ${GRID_SIZE} ${GRID_SIZE}`}
+      className="absolute inset-0 h-full w-full"
+      aria-hidden="true"
+    >
+      <rect width={GRID_SIZE} height={GRID_SIZE} fill={surface.base} />
+      {SEAT_ORDER.map((color) => {
+        const { row, col } = yards[color];
+        return (
+          <g key={`yard-${color}`}>
+            <rect x={col} y={row} width={6} height={6} fill={colors[color]} opacity={0.85} />
+            <rect
+              x={col + 1}
+              y={row + 1}
+              width={4}
+              height={4}
+              rx={0.4}
+              fill={surface.base}
+              opacity={0.85}
+            />
+          </g>
+        );
+      })}
+      {track.map(({ row, col }, idx) => {
+        const owner = startColor.get(idx);
+        return (
+          <g key={`track-${idx}`}>
+            <rect
+              x={col + 0.04}
+              y={row + 0.04}
+              width={0.92}
+              height={0.92}
+              fill={owner ? colors[owner] : surface.cell}
+              fillOpacity={owner ? 0.7 : 1}
+              stroke="rgba(255,255,255,0.15)"
+              strokeWidth={0.04}
+            />
+            {isSafeCell(rules, idx) && (
+              <polygon
+                points={starPoints(col + 0.5, row + 0.5, 0.34)}
+                fill="rgba(255,255,255,0.55)"
+              />
+            )}
+          </g>
+        );
+      })}
+      {SEAT_ORDER.map((color) =>
+        finals[color].map(({ row, col }, idx) => (
+          <rect
+            key={`final-${color}-${idx}`}
+            x={col + 0.04}
+            y={row + 0.04}
+            width={0.92}
+            height={0.92}
+            fill={colors[color]}
+            fillOpacity={0.55}
+            stroke="rgba(255,255,255,0.15)"
+            strokeWidth={0.04}
+          />
+        ))
+      )}
+      {SEAT_ORDER.map((color) => (
+        <polygon
+          key={`finish-${color}`}
+          points={triangles[color].map(({ x, y }) => `${x},${y}`).join(" ")}
+          fill={colors[color]}
+          fillOpacity={0.8}
+          stroke={surface.base}
+          strokeWidth={0.04}
+        />
+      ))}
+    </svg>
+  );
+}
+
+function CircleBackdrop({ layout, rules, colors }: Props) {
+  return (
+    <>
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_rgba(255,255,255,0.04)_0%,_transparent_45%)]" />
+      <div className="absolute inset-6 rounded-2xl border border-white/5" />
+      {layout.track.map((pt, idx) => (
+        <div
+          key={idx}
+          className={`absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border border-white/20 ${
+            isSafeCell(rules, idx) ? "bg-white/30" : "bg-white/10"
+          }`}
+          style={{ left: `${pt.x}%`, top: `${pt.y}%` }}
+        />
+      ))}
+      {(Object.keys(layout.finalLanes) as PlayerColor[]).map((color) =>
+        layout.finalLanes[color].map((pt, idx) => (
+          <div
+            key={`${color}-lane-${idx}`}
+            className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border border-white/30"
+            style={{
+              left: `${pt.x}%`,
+              top: `${pt.y}%`,
+              backgroundColor: `${colors[color]}30`,
+            }}
+          />
+        ))
+      )}
+      <div className="absolute left-1/2 top-1/2 h-16 w-16 -translate-x-1/2 -translate-y-1/2 rounded-2xl border-2 border-white/40 bg-white/10" />
+    </>
+  );
+}
+
+/** Everything under the tokens: squares, yards, stars and the centre. */
+export default function BoardBackdrop({ layout, rules, colors, surface }: Props) {
+  return layout.theme === "circle" ? (
+    <CircleBackdrop layout={layout} rules={rules} colors={colors} surface={surface} />
+  ) : (
+    <CrossBackdrop rules={rules} colors={colors} surface={surface} />
+  );
+}
@@ -0,0 +1,148 @@
+import { type FormEvent, useEffect, useRef, useState } from "react";
+import {
+  type ChatLine,
+  type ChatPost,
+  type GameState,
+  type PlayerColor,
+  MAX_MESSAGE_LENGTH,
+  REACTIONS,
+  findPlayer,
+} from "@/lib/ludo";
+
+type Props = {
+  state: GameState;
+  lines: ChatLine[];
+  colors: Record<PlayerColor, string>;
+  /** Seats that may post from this device; empty makes the panel read-only. */
+  speakers: PlayerColor[];
+  onPost: (post: ChatPost, color: PlayerColor) => void;
+};
+
+/**
+ * Table talk: game events, quick reactions and short messages. With more
+ * than one speaker the message goes out as the player whose turn it is,
+ * unless someone else is picked.
+ */
+export default function ChatPanel({ state, lines, colors, speakers, onPost }: Props) {
+  const [text, setText] = useState("");
+  const [picked, setPicked] = useState<PlayerColor | null>(null);
+  const list = useRef<HTMLOListElement>(null);
+  const speaker =
+    picked && speakers.includes(picked)
+      ? picked
+      : speakers.includes(state.currentPlayer)
+      ? state.currentPlayer
+      : speakers[0];
+  const last = state.log[state.log.length - 1];
+  const justCaptured = last?.kind === "move" && last.captures.length > 0;
+
+  useEffect(() => {
+    list.current?.scrollTo({ top: list.current.scrollHeight });
+  }, [lines]);
+
+  const post = (message: ChatPost) => {
+    if (!speaker) return;
+    onPost(message, speaker);
+    setPicked(null);
+  };
+
+  const send = (event: FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+    post({ kind: "message", text });
+    setText("");
+  };
+
+  const label = (color: PlayerColor | null) =>
+    color ? findPlayer(state.players, color).label : "";
+
+  return (
+    <section
+      aria-labelledby="chat-heading"
+      className="rounded-2xl border border-white/10 bg-slate-900/80 p-4 text-sm text-slate-300"
+    >
+      <p id="chat-heading" className="mb-2 font-semibold text-white">
+        Table talk
+      </p>
+      <ol
+        ref={list}
+        aria-live="polite"
+        className="max-h-48 space-y-1 overflow-y-auto text-xs"
+      >
+        {lines.length === 0 && <li className="text-slate-500">Nothing said yet.</li>}
+        {lines.map((line) =>
+          line.kind === "system" ? (
+            <li key={line.id} className="italic text-slate-500">
+              {line.text}
+            </li>
+          ) : (
+            <li key={line.id} className="flex items-start gap-2">
+              <span
+                className="mt-1 h-2.5 w-2.5 shrink-0 rounded-full"
+                style={{ backgroundColor: line.color ? colors[line.color] : undefined }}
+              />
+              <span>
+                <span className="font-semibold text-slate-200">{label(line.color)}:</span>{" "}
+                <span className={line.kind === "reaction" ? "text-base" : ""}>{line.text}</span>
+              </span>
+            </li>
+          )
+        )}
+      </ol>
+
+      {speaker ? (
+        <div className="mt-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-1">
+            <span className={`mr-1 text-xs ${justCaptured ? "text-amber-300" : "text-slate-400"}`}>
+              {justCaptured ? "Ouch! React:" : "React:"}
+            </span>
+            {REACTIONS.map((emoji) => (
+              <button
+                key={emoji}
+                onClick={() => post({ kind: "reaction", emoji })}
+                aria-label={`React with ${emoji}`}
+                className="rounded-lg px-1.5 py-0.5 text-base transition hover:bg-white/10"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+          <form onSubmit={send} className="flex gap-2">
+            {speakers.length > 1 && (
+              <select
+                value={speaker}
+                onChange={(e) => setPicked(e.target.value as PlayerColor)}
+                aria-label="Speaking as"
+                className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs"
+              >
+                {speakers.map((color) => (
+                  <option key={color} value={color}>
+                    {label(color)}
+                  </option>
+                ))}
+              </select>
+            )}
+            <input
+              type="text"
+              value={text}
+              maxLength={MAX_MESSAGE_LENGTH}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Say something"
+              aria-label="Message"
+              className="min-w-0 flex-1 rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-xs"
+            />
+            <button
+              type="submit"
+              disabled={!text.trim()}
+              className="rounded-lg border border-white/15 px-3 py-1 text-xs font-semibold text-white/90 transition hover:bg-white/5 disabled:opacity-40"
+            >
+              Send
+            </button>
+          </form>
+        </div>
+      ) : (
+        <p className="mt-2 text-xs text-slate-500">Take a seat to join the conversation.</p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,80 @@
+import { type GameState, type PlayerColor, ordinal, recordGame } from "@/lib/ludo";
+
+type Props = {
+  state: GameState;
+  colors: Record<PlayerColor, string>;
+  /** Shown as buttons under the table when given. */
+  onNewGame?: () => void;
+  onReplay?: () => void;
+};
+
+/** Placements and how each seat played, once the game is over. */
+export default function GameResults({ state, colors, onNewGame, onReplay }: Props) {
+  const record = recordGame(state);
+  if (!record) return null;
+  const seats = [...record.seats].sort(
+    (a, b) => (a.place ?? Infinity) - (b.place ?? Infinity)
+  );
+
+  return (
+    <section
+      aria-labelledby="results-heading"
+      className="rounded-2xl border border-white/10 bg-slate-900/80 p-4 text-sm"
+    >
+      <p id="results-heading" className="font-semibold text-white">
+        Results
+      </p>
+      <p className="text-xs text-slate-400">{record.turns} turns played</p>
+      <table className="mt-3 w-full text-left text-xs">
+        <thead className="text-slate-400">
+          <tr>
+            <th className="py-1 font-normal">Place</th>
+            <th className="py-1 font-normal">Player</th>
+            <th className="py-1 text-right font-normal">Captures</th>
+            <th className="py-1 text-right font-normal">Captured</th>
+            <th className="py-1 text-right font-normal">Sixes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {seats.map((seat) => (
+            <tr key={seat.color} className="border-t border-white/5 text-slate-200">
+              <td className="py-1 font-semibold">{seat.place ? ordinal(seat.place) : "-"}</td>
+              <td className="py-1">
+                <span className="flex items-center gap-2">
+                  <span
+                    className="h-3 w-3 shrink-0 rounded-full"
+                    style={{ backgroundColor: colors[seat.color] }}
+                  />
+                  {seat.label}
+                </span>
+              </td>
+              <td className="py-1 text-right">{seat.capturesMade}</td>
+              <td className="py-1 text-right">{seat.capturesSuffered}</td>
+              <td className="py-1 text-right">{seat.sixes}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {(onNewGame || onReplay) && (
+        <div className="mt-3 flex gap-2">
+          {onNewGame && (
+            <button
+              onClick={onNewGame}
+              className="rounded-xl bg-white px-4 py-2 text-sm font-semibold text-slate-900 shadow-lg shadow-blue-500/30 transition hover:scale-[1.02]"
+            >
+              New game
+            </button>
+          )}
+          {onReplay && (
+            <button
+              onClick={onReplay}
+              className="rounded-xl border border-white/15 px-4 py-2 text-sm font-semibold text-white/90 transition hover:bg-white/5"
+            >
+              Watch replay
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
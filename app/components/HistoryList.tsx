@@ -0,0 +1,52 @@
+import { useEffect, useRef } from "react";
+import { type LogEntry, type Player, describeEntry } from "@/lib/ludo";
+
+type Props = {
+  entries: LogEntry[];
+  players: Player[];
+  colors: Record<Player["color"], string>;
+  /** Entries played so far when replaying; later ones are dimmed. */
+  played?: number;
+  onSelect?: (played: number) => void;
+};
+
+export default function HistoryList({ entries, players, colors, played, onSelect }: Props) {
+  const listRef = useRef<HTMLOListElement>(null);
+
+  useEffect(() => {
+    if (played === undefined) {
+      listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+    }
+  }, [entries.length, played]);
+
+  if (!entries.length) {
+    return <p className="text-xs text-slate-500">No moves yet.</p>;
+  }
+
+  return (
+    <ol ref={listRef} className="max-h-48 space-y-1 overflow-y-auto pr-1 text-xs">
+      {entries.map((entry, idx) => {
+        const upcoming = played !== undefined && idx >= played;
+        const current = played !== undefined && idx === played - 1;
+        return (
+          <li key={idx}>
+            <button
+              onClick={() => onSelect?.(idx + 1)}
+              disabled={!onSelect}
+              className={`flex w-full items-center gap-2 rounded-md px-2 py-1 text-left ${
+                current ? "bg-white/15 text-white" : upcoming ? "text-slate-600" : "text-slate-300"
+              } ${onSelect ? "hover:bg-white/10" : ""}`}
+            >
+              <span
+                className="h-2 w-2 shrink-0 rounded-full"
+                style={{ backgroundColor: colors[entry.player] }}
+              />
+              <span className="w-6 shrink-0 text-slate-500">{idx + 1}.</span>
+              <span>{describeEntry(entry, players)}</span>
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
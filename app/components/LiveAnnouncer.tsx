@@ -0,0 +1,24 @@
+import { useState } from "react";
+import { type GameState, announceChange } from "@/lib/ludo";
+
+type Props = {
+  state: GameState | null;
+};
+
+/** Reads rolls, moves, captures and turn changes out to screen readers. */
+export default function LiveAnnouncer({ state }: Props) {
+  const [seen, setSeen] = useState(state);
+  const [message, setMessage] = useState("");
+
+  if (state !== seen) {
+    setSeen(state);
+    const said = seen && state ? announceChange(seen, state) : null;
+    if (said) setMessage(said);
+  }
+
+  return (
+    <div role="status" aria-live="polite" className="sr-only">
+      {message}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { type GameState, type PlayerColor, findPlayer, tokenName } from "@/lib/ludo";
+import { useGameReview } from "./useAnalysis";
+
+type Props = {
+  state: GameState;
+  colors: Record<PlayerColor, string>;
+  /** Opens the replay just before the move at this log index. */
+  onSelect?: (logIndex: number) => void;
+};
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/** Flags the turns of a finished game where a clearly better move was there. */
+export default function MoveReview({ state, colors, onSelect }: Props) {
+  const [requested, setRequested] = useState<GameState | null>(null);
+  const review = useGameReview(requested === state ? state : null);
+
+  return (
+    <section
+      aria-labelledby="review-heading"
+      className="rounded-2xl border border-white/10 bg-slate-900/80 p-4 text-sm"
+    >
+      <p id="review-heading" className="font-semibold text-white">
+        Move review
+      </p>
+      {!review ? (
+        <>
+          <p className="text-xs text-slate-400">
+            Replays the game and checks each choice against simulated finishes.
+          </p>
+          <button
+            onClick={() => setRequested(state)}
+            className="mt-3 rounded-xl border border-white/15 px-4 py-2 text-sm font-semibold text-white/90 transition hover:bg-white/5"
+          >
+            Review moves
+          </button>
+        </>
+      ) : !review.mistakes ? (
+        <div className="mt-2">
+          <p className="text-xs text-slate-400">Reviewing... {percent(review.done)}</p>
+          <progress value={review.done} max={1} className="mt-1 h-2 w-full accent-white" />
+        </div>
+      ) : review.mistakes.length === 0 ? (
+        <p className="mt-2 text-xs text-slate-300">No clear mistakes - every move held up.</p>
+      ) : (
+        <ol className="mt-2 space-y-1 text-xs text-slate-200">
+          {review.mistakes.map(({ logIndex, player, chosen, best }) => (
+            <li key={logIndex}>
+              <button
+                onClick={() => onSelect?.(logIndex)}
+                disabled={!onSelect}
+                className="flex w-full items-start gap-2 rounded-lg px-2 py-1 text-left transition hover:bg-white/10 disabled:hover:bg-transparent"
+              >
+                <span
+                  className="mt-1 h-2.5 w-2.5 shrink-0 rounded-full"
+                  style={{ backgroundColor: colors[player] }}
+                />
+                <span>
+                  {findPlayer(state.players, player).label} moved{" "}
+                  {tokenName(state.players, chosen.option.tokenId)} ({percent(chosen.winRate)} to
+                  win); {tokenName(state.players, best.option.tokenId)} was better (
+                  {percent(best.winRate)}).
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState } from "react";
+import RuleSetPicker from "./RuleSetPicker";
+import { useStatsData } from "./statsStore";
+import {
+  type BotLevel,
+  type DiceMode,
+  type GameSetup,
+  type PlayerColor,
+  MIN_PLAYERS,
+  SEAT_ORDER,
+  defaultLabel,
+} from "@/lib/ludo";
+
+const CONTROLLERS: { value: BotLevel | "human"; label: string }[] = [
+  { value: "human", label: "Human" },
+  { value: "easy", label: "Bot - Easy" },
+  { value: "normal", label: "Bot - Normal" },
+  { value: "hard", label: "Bot - Hard" },
+];
+
+type Props = {
+  initial: GameSetup;
+  colors: Record<PlayerColor, string>;
+  onStart: (setup: GameSetup, name: string) => void;
+  onCancel: () => void;
+};
+
+export default function NewGameSetup({ initial, colors, onStart, onCancel }: Props) {
+  const [labels, setLabels] = useState<Record<PlayerColor, string>>(() => {
+    const byColor = Object.fromEntries(
+      SEAT_ORDER.map((color) => [color, defaultLabel(color)])
+    ) as Record<PlayerColor, string>;
+    initial.seats.forEach((seat) => {
+      byColor[seat.color] = seat.label;
+    });
+    return byColor;
+  });
+  const [bots, setBots] = useState<Partial<Record<PlayerColor, BotLevel>>>(() =>
+    Object.fromEntries(
+      initial.seats.flatMap((seat) => (seat.bot ? [[seat.color, seat.bot]] : []))
+    )
+  );
+  const [profileOf, setProfileOf] = useState<Partial<Record<PlayerColor, string>>>(() =>
+    Object.fromEntries(
+      initial.seats.flatMap((seat) => (seat.profile ? [[seat.color, seat.profile]] : []))
+    )
+  );
+  const profiles = useStatsData()?.profiles ?? [];
+  const [seated, setSeated] = useState<PlayerColor[]>(
+    initial.seats.map((s) => s.color)
+  );
+  const [firstPlayer, setFirstPlayer] = useState(initial.firstPlayer);
+  const [rules, setRules] = useState(initial.rules);
+  const [diceMode, setDiceMode] = useState<DiceMode>(initial.diceMode);
+  // Blank means a fresh random seed; reusing the last one would replay its dice.
+  const [seed, setSeed] = useState("");
+  const [name, setName] = useState("");
+
+  const toggleSeat = (color: PlayerColor) => {
+    setSeated((current) =>
+      current.includes(color)
+        ? current.filter((c) => c !== color)
+        : SEAT_ORDER.filter((c) => c === color || current.includes(c))
+    );
+  };
+
+  // A profile plays as a person, in one seat at a time; its name labels the seat.
+  const pickProfile = (color: PlayerColor, id: string) => {
+    setProfileOf((current) => ({ ...current, [color]: id || undefined }));
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    setLabels((current) => ({ ...current, [color]: profile.name }));
+    setBots((current) => ({ ...current, [color]: undefined }));
+  };
+
+  // Profiles that prefer this colour are listed first.
+  const profileChoices = (color: PlayerColor) =>
+    profiles
+      .filter((p) => p.id === profileOf[color] || !Object.values(profileOf).includes(p.id))
+      .sort((a, b) => Number(b.color === color) - Number(a.color === color));
+
+  const opener =
+    firstPlayer === "roll" || seated.includes(firstPlayer) ? firstPlayer : seated[0];
+  const canStart = seated.length >= MIN_PLAYERS;
+  const fullTable = seated.length === SEAT_ORDER.length;
+
+  const start = () => {
+    if (!canStart) return;
+    const setup: GameSetup = {
+      seats: seated.map((color) => ({
+        color,
+        label: labels[color],
+        bot: bots[color] ?? null,
+        profile: profileOf[color] ?? null,
+      })),
+      firstPlayer: opener,
+      rules: { ...rules, teams: rules.teams && fullTable },
+      seed,
+      diceMode,
+    };
+    onStart(setup, name.trim() || `Game of ${new Date().toLocaleDateString()}`);
+  };
+
+  return (
+    <div className="space-y-4 text-sm text-slate-200">
+      <label className="block">
+        <span className="mb-1 block text-xs uppercase tracking-wide text-slate-400">Game name</span>
+        <input
+          type="text"
+          value={name}
+          maxLength={40}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={`Game of ${new Date().toLocaleDateString()}`}
+          className="w-full rounded-lg border border-white/10 bg-white/5 px-2 py-1"
+        />
+      </label>
+
+      <div>
+        <p className="mb-2 text-xs uppercase tracking-wide text-slate-400">Seats</p>
+        <div className="space-y-2">
+          {SEAT_ORDER.map((color) => {
+            const isSeated = seated.includes(color);
+            return (
+              <div key={color} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={isSeated}
+                  onChange={() => toggleSeat(color)}
+                  aria-label={`Seat ${defaultLabel(color)}`}
+                />
+                <span
+                  className="h-3 w-3 shrink-0 rounded-full"
+                  style={{ backgroundColor: colors[color] }}
+                />
+                <input
+                  type="text"
+                  value={labels[color]}
+                  maxLength={20}
+                  disabled={!isSeated}
+                  onChange={(e) =>
+                    setLabels((current) => ({ ...current, [color]: e.target.value }))
+                  }
+                  placeholder={defaultLabel(color)}
+                  className="w-full rounded-lg border border-white/10 bg-white/5 px-2 py-1 text-sm disabled:opacity-40"
+                />
+                {profiles.length > 0 && (
+                  <select
+                    value={profileOf[color] ?? ""}
+                    disabled={!isSeated}
+                    onChange={(e) => pickProfile(color, e.target.value)}
+                    aria-label={`${defaultLabel(color)} profile`}
+                    className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs disabled:opacity-40"
+                  >
+                    <option value="">No profile</option>
+                    {profileChoices(color).map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <select
+                  value={bots[color] ?? "human"}
+                  disabled={!isSeated}
+                  onChange={(e) => {
+                    const bot = e.target.value === "human" ? undefined : (e.target.value as BotLevel);
+                    setBots((current) => ({ ...current, [color]: bot }));
+                    if (bot) setProfileOf((current) => ({ ...current, [color]: undefined }));
+                  }}
+                  aria-label={`${defaultLabel(color)} controller`}
+                  className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs disabled:opacity-40"
+                >
+                  {CONTROLLERS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+        {!canStart && (
+          <p className="mt-2 text-xs text-amber-300">
+            Seat at least {MIN_PLAYERS} players.
+          </p>
+        )}
+      </div>
+
+      <label className="block">
+        <span className="mb-1 block text-xs uppercase tracking-wide text-slate-400">
+          First turn
+        </span>
+        <select
+          value={opener ?? "roll"}
+          onChange={(e) => setFirstPlayer(e.target.value as GameSetup["firstPlayer"])}
+          className="w-full rounded-lg border border-white/10 bg-slate-900 px-2 py-1"
+        >
+          {seated.map((color) => (
+            <option key={color} value={color}>
+              {labels[color].trim() || defaultLabel(color)}
+            </option>
+          ))}
+          <option value="roll">Roll for first turn</option>
+        </select>
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block">
+          <span className="mb-1 block text-xs uppercase tracking-wide text-slate-400">Dice</span>
+          <select
+            value={diceMode}
+            onChange={(e) => setDiceMode(e.target.value as DiceMode)}
+            className="w-full rounded-lg border border-white/10 bg-slate-900 px-2 py-1"
+          >
+            <option value="seeded">On-screen dice</option>
+            <option value="manual">Physical die (type rolls)</option>
+          </select>
+        </label>
+        <label className="block">
+          <span className="mb-1 block text-xs uppercase tracking-wide text-slate-400">Seed</span>
+          <input
+            type="text"
+            value={seed}
+            maxLength={40}
+            onChange={(e) => setSeed(e.target.value)}
+            placeholder={`Random (last: ${initial.seed})`}
+            disabled={diceMode === "manual"}
+            className="w-full rounded-lg border border-white/10 bg-white/5 px-2 py-1 disabled:opacity-40"
+          />
+        </label>
+      </div>
+
+      <div>
+        <p className="mb-2 text-xs uppercase tracking-wide text-slate-400">House rules</p>
+        <RuleSetPicker rules={rules} onChange={setRules} fullTable={fullTable} />
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={start}
+          disabled={!canStart}
+          className="rounded-xl bg-white px-4 py-2 text-sm font-semibold text-slate-900 shadow-lg shadow-blue-500/30 transition hover:scale-[1.02] disabled:opacity-50"
+        >
+          Start game
+        </button>
+        <button
+          onClick={onCancel}
+          className="rounded-xl border border-white/15 px-4 py-2 text-sm font-semibold text-white/90 transition hover:bg-white/5"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+type Props = {
+  index: number;
+  total: number;
+  playing: boolean;
+  onTogglePlay: () => void;
+  onSeek: (index: number) => void;
+  onExit: () => void;
+};
+
+export default function ReplayControls({
+  index,
+  total,
+  playing,
+  onTogglePlay,
+  onSeek,
+  onExit,
+}: Props) {
+  const button =
+    "rounded-lg border border-white/15 px-3 py-1 text-xs font-semibold text-white/90 transition hover:bg-white/5 disabled:opacity-40";
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span>Replay</span>
+        <span>
+          {index} / {total}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={total}
+        value={index}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        aria-label="Replay position"
+        className="w-full"
+      />
+      <div className="flex flex-wrap gap-2">
+        <button onClick={() => onSeek(index - 1)} disabled={index <= 0} className={button}>
+          Back
+        </button>
+        <button onClick={onTogglePlay} className={button}>
+          {playing ? "Pause" : "Play"}
+        </button>
+        <button onClick={() => onSeek(index + 1)} disabled={index >= total} className={button}>
+          Forward
+        </button>
+        <button onClick={onExit} className={button}>
+          Exit replay
+        </button>
+      </div>
+    </div>
+  );
+}
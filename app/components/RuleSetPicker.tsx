@@ -0,0 +1,55 @@
+import type { RuleSet } from "@/lib/ludo";
+
+type BooleanRule = Exclude<keyof RuleSet, "entryRolls">;
+
+const TOGGLES: { key: BooleanRule; label: string }[] = [
+  { key: "safeStars", label: "Safe stars protect pieces" },
+  { key: "blockades", label: "Two pieces on a cell form a blockade" },
+  { key: "threeSixesForfeit", label: "Three 6s in a row forfeit the turn" },
+  { key: "bonusRollOnCapture", label: "Bonus roll after a capture" },
+  { key: "bonusRollOnHome", label: "Bonus roll after reaching home" },
+  { key: "exactFinish", label: "Exact roll needed to finish (else bounce back)" },
+  { key: "captureBeforeHomeColumn", label: "Capture before entering the home column" },
+  { key: "playToEnd", label: "Play to the end to decide every place" },
+  { key: "teams", label: "Teams: red with yellow, blue with green" },
+];
+
+type Props = {
+  rules: RuleSet;
+  onChange: (rules: RuleSet) => void;
+  /** Teams need all four seats; with fewer the toggle is off and disabled. */
+  fullTable: boolean;
+};
+
+export default function RuleSetPicker({ rules, onChange, fullTable }: Props) {
+  const enterOnOne = rules.entryRolls.includes(1);
+  return (
+    <div className="space-y-2 text-xs text-slate-300">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={enterOnOne}
+          onChange={(e) =>
+            onChange({ ...rules, entryRolls: e.target.checked ? [1, 6] : [6] })
+          }
+        />
+        Enter on a 1 as well as a 6
+      </label>
+      {TOGGLES.map(({ key, label }) => {
+        const unavailable = key === "teams" && !fullTable;
+        return (
+          <label key={key} className={`flex items-center gap-2 ${unavailable ? "opacity-40" : ""}`}>
+            <input
+              type="checkbox"
+              checked={rules[key] && !unavailable}
+              disabled={unavailable}
+              onChange={(e) => onChange({ ...rules, [key]: e.target.checked })}
+            />
+            {label}
+            {unavailable && " (seat all four players)"}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
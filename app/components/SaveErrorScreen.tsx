@@ -0,0 +1,46 @@
+import { downloadJson } from "./download";
+import type { SaveError } from "@/lib/ludo";
+
+type Props = {
+  error: SaveError;
+  raw: string;
+  onReset: () => void;
+};
+
+export default function SaveErrorScreen({ error, raw, onReset }: Props) {
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-950 text-white flex items-center justify-center px-4">
+      <div className="max-w-md rounded-3xl border border-white/10 bg-white/5 p-6 shadow-2xl backdrop-blur">
+        <p className="text-lg font-semibold">We couldn&apos;t load your saved game</p>
+        <p className="mt-1 text-sm text-slate-300">{error.message}.</p>
+        {error.issues.length > 0 && (
+          <ul className="mt-3 max-h-40 space-y-1 overflow-y-auto rounded-xl bg-slate-950/60 p-3 text-xs text-slate-400">
+            {error.issues.map((issue) => (
+              <li key={issue}>- {issue}</li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-3 text-sm text-slate-400">
+          Download the raw data to keep a copy, or start a fresh game. Starting over
+          replaces the damaged save.
+        </p>
+        <div className="mt-4 flex gap-2">
+          <button
+            onClick={() =>
+              downloadJson(raw, `ludo-save-${new Date().toISOString().slice(0, 10)}.json`)
+            }
+            className="rounded-xl border border-white/15 px-4 py-2 text-sm font-semibold text-white/90 transition hover:bg-white/5"
+          >
+            Download raw data
+          </button>
+          <button
+            onClick={onReset}
+            className="rounded-xl bg-white px-4 py-2 text-sm font-semibold text-slate-900 shadow-lg shadow-blue-500/30 transition hover:scale-[1.02]"
+          >
+            Start a new game
+          </button>
+        </div>
+      </div>
+    </main>
+  );
+}
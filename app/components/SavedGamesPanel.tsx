@@ -0,0 +1,123 @@
+import { useState } from "react";
+import type { SlotSummary } from "@/lib/ludo";
+
+type Props = {
+  slots: SlotSummary[];
+  activeId: string | null;
+  importError: string | null;
+  onResume: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+};
+
+const smallButton =
+  "rounded-md border border-white/15 px-2 py-0.5 text-[11px] text-white/90 transition hover:bg-white/5 disabled:opacity-40";
+
+export default function SavedGamesPanel({
+  slots,
+  activeId,
+  importError,
+  onResume,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+}: Props) {
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  const confirmDelete = (slot: SlotSummary) => {
+    if (window.confirm(`Delete "${slot.name}"? This can't be undone.`)) onDelete(slot.id);
+  };
+
+  return (
+    <div className="space-y-3 text-xs text-slate-300">
+      <ul className="max-h-72 space-y-2 overflow-y-auto pr-1">
+        {slots.map((slot) => {
+          const active = slot.id === activeId;
+          return (
+            <li
+              key={slot.id}
+              className={`rounded-xl border border-white/10 p-2 ${active ? "bg-white/10" : "bg-white/5"}`}
+            >
+              {editing?.id === slot.id ? (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    onRename(slot.id, editing.name);
+                    setEditing(null);
+                  }}
+                >
+                  <input
+                    autoFocus
+                    value={editing.name}
+                    maxLength={40}
+                    onChange={(e) => setEditing({ id: slot.id, name: e.target.value })}
+                    className="w-full rounded-md border border-white/10 bg-white/5 px-2 py-0.5 text-sm"
+                  />
+                  <button type="submit" className={smallButton}>
+                    Save
+                  </button>
+                </form>
+              ) : (
+                <p className="text-sm font-semibold text-white">
+                  {slot.name}
+                  {active && <span className="ml-2 text-[10px] text-slate-400">(playing)</span>}
+                </p>
+              )}
+              <p className="mt-0.5 text-slate-400">
+                {slot.error
+                  ? `Damaged: ${slot.error.message}`
+                  : `${slot.finished ? "Won by" : "Leader"}: ${slot.leader} · Last played ${
+                      slot.savedAt ? new Date(slot.savedAt).toLocaleString() : "never"
+                    }`}
+              </p>
+              <div className="mt-2 flex flex-wrap gap-1">
+                <button onClick={() => onResume(slot.id)} disabled={active} className={smallButton}>
+                  Resume
+                </button>
+                <button
+                  onClick={() => setEditing({ id: slot.id, name: slot.name })}
+                  className={smallButton}
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => onDuplicate(slot.id)}
+                  disabled={!!slot.error}
+                  className={smallButton}
+                >
+                  Duplicate
+                </button>
+                <button onClick={() => onExport(slot.id)} className={smallButton}>
+                  Export
+                </button>
+                <button onClick={() => confirmDelete(slot)} className={smallButton}>
+                  Delete
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <label className="block">
+        <span className="mb-1 block text-slate-400">Import a game file</span>
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = "";
+          }}
+          className="block w-full text-[11px] text-slate-400 file:mr-2 file:rounded-md file:border-0 file:bg-white file:px-2 file:py-1 file:text-slate-900"
+        />
+      </label>
+      {importError && <p className="text-amber-300">{importError}</p>}
+    </div>
+  );
+}
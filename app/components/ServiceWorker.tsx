@@ -0,0 +1,81 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * Registers the offline service worker and says when a newer build is
+ * waiting. The new version only takes over when the player asks; the game
+ * in progress is already saved on every move, so reloading resumes it.
+ */
+export default function ServiceWorker() {
+  const [waiting, setWaiting] = useState<globalThis.ServiceWorker | null>(null);
+
+  useEffect(() => {
+    // public/sw.js only exists after `npm run build`.
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    const container = navigator.serviceWorker;
+    let registration: ServiceWorkerRegistration | undefined;
+
+    // The very first install has no controller yet, so there is nothing to replace.
+    const watch = (worker: globalThis.ServiceWorker) => {
+      worker.addEventListener("statechange", () => {
+        if (worker.state === "installed" && container.controller) setWaiting(worker);
+      });
+    };
+    const onFound = () => registration?.installing && watch(registration.installing);
+    // An app left open on a home screen can go days without a navigation.
+    const onVisible = () => {
+      if (document.visibilityState === "visible") registration?.update().catch(() => {});
+    };
+
+    container
+      .register("/sw.js")
+      .then((reg) => {
+        registration = reg;
+        if (reg.waiting && container.controller) setWaiting(reg.waiting);
+        if (reg.installing) watch(reg.installing);
+        reg.addEventListener("updatefound", onFound);
+      })
+      .catch(() => {
+        // Offline play is a bonus; the app works the same without it.
+      });
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      registration?.removeEventListener("updatefound", onFound);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, []);
+
+  if (!waiting) return null;
+
+  const update = () => {
+    navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), {
+      once: true,
+    });
+    waiting.postMessage({ type: "SKIP_WAITING" });
+  };
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-4 bottom-4 z-50 mx-auto flex max-w-md flex-wrap items-center gap-3 rounded-2xl border border-white/10 bg-slate-900/95 p-4 text-sm text-slate-300 shadow-lg"
+    >
+      <p className="min-w-0 flex-1">
+        <span className="font-semibold text-white">A new version is ready.</span> Your game is
+        saved on this device and picks up where you left off.
+      </p>
+      <button
+        onClick={update}
+        className="rounded-full bg-white px-4 py-1.5 text-xs font-semibold text-slate-900 transition hover:bg-slate-200"
+      >
+        Update now
+      </button>
+      <button
+        onClick={() => setWaiting(null)}
+        className="rounded-full border border-white/15 px-4 py-1.5 text-xs font-semibold text-white/80 transition hover:bg-white/5"
+      >
+        Later
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { useSoundSettings } from "./preferences";
+
+/** Mute, volume and vibration toggles; changes apply and persist at once. */
+export default function SoundControls() {
+  const [{ volume, muted, haptics }, update] = useSoundSettings();
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => update({ muted: !muted })}
+        aria-pressed={muted}
+        className="rounded-full border border-white/15 px-3 py-1 text-white/80 transition hover:bg-white/5"
+      >
+        {muted ? "Sound off" : "Sound on"}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.1}
+        value={volume}
+        disabled={muted}
+        onChange={(e) => update({ volume: Number(e.target.value) })}
+        aria-label="Volume"
+        className="w-20 disabled:opacity-40"
+      />
+      <label className="flex items-center gap-1">
+        <input
+          type="checkbox"
+          checked={haptics}
+          onChange={(e) => update({ haptics: e.target.checked })}
+        />
+        Vibrate
+      </label>
+    </div>
+  );
+}
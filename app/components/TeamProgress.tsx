@@ -0,0 +1,72 @@
+import {
+  type GameState,
+  type PlayerColor,
+  FINAL_STEPS_END,
+  TOKENS_PER_PLAYER,
+  clampSteps,
+  sidesOf,
+} from "@/lib/ludo";
+
+type Props = {
+  state: GameState;
+  colors: Record<PlayerColor, string>;
+};
+
+/** Tokens home per side, out of every token the side has. */
+export default function TeamProgress({ state, colors }: Props) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-900/80 p-4 text-sm text-slate-300">
+      <p className="mb-2 font-semibold text-white">Teams</p>
+      <div className="space-y-3">
+        {sidesOf(state).map((side) => {
+          const total = side.length * TOKENS_PER_PLAYER;
+          const home = side
+            .flatMap((p) => p.tokens)
+            .filter((t) => clampSteps(t.steps) === FINAL_STEPS_END).length;
+          const name = side.map((p) => p.label).join(" & ");
+          return (
+            <div key={side[0].color}>
+              <div className="flex items-center justify-between text-xs">
+                <span className="flex items-center gap-2">
+                  {side.map((p) => (
+                    <span
+                      key={p.color}
+                      className="h-3 w-3 rounded-full"
+                      style={{ backgroundColor: colors[p.color] }}
+                    />
+                  ))}
+                  <span className="font-semibold text-white">{name}</span>
+                </span>
+                <span>
+                  {home}/{total} home
+                </span>
+              </div>
+              <div
+                role="progressbar"
+                aria-label={`${name} tokens home`}
+                aria-valuemin={0}
+                aria-valuemax={total}
+                aria-valuenow={home}
+                className="mt-1 flex h-2 overflow-hidden rounded-full bg-white/10"
+              >
+                {side.map((p) => (
+                  <div
+                    key={p.color}
+                    style={{
+                      width: `${
+                        (p.tokens.filter((t) => clampSteps(t.steps) === FINAL_STEPS_END).length /
+                          total) *
+                        100
+                      }%`,
+                      backgroundColor: colors[p.color],
+                    }}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { type GameState, analyzeMoves, reviewGame } from "@/lib/ludo";
+import type { AnalysisRequest, AnalysisResponse } from "./useAnalysis";
+
+// Rollouts take a second or more, so they run here instead of on the page.
+const reply = (message: AnalysisResponse) => postMessage(message);
+
+addEventListener("message", (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data;
+  const game: GameState = request.game;
+  if (request.kind === "moves") {
+    reply({ kind: "moves", moves: analyzeMoves(game) });
+    return;
+  }
+  let reported = 0;
+  const mistakes = reviewGame(game, {
+    onProgress: (done) => {
+      // A message per log entry would flood the page; whole percents are plenty.
+      if (done - reported < 0.01 && done < 1) return;
+      reported = done;
+      reply({ kind: "progress", done });
+    },
+  });
+  reply({ kind: "review", mistakes });
+});
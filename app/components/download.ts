@@ -0,0 +1,9 @@
+/** Saves `text` to the user's device as a JSON file. */
+export function downloadJson(text: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,110 @@
+import type { CSSProperties } from "react";
+import type { PlayerColor } from "@/lib/ludo";
+
+export type PaletteId = "classic" | "okabe-ito" | "tol-bright" | "high-contrast";
+
+export type Palette = {
+  id: PaletteId;
+  name: string;
+  /** Every hue stays apart for red-green and blue-yellow colour blindness. */
+  colourBlindSafe: boolean;
+  colors: Record<PlayerColor, string>;
+};
+
+// Each palette keeps the seat names true: red stays reddish, blue bluish.
+export const PALETTES: Palette[] = [
+  {
+    id: "classic",
+    name: "Classic",
+    colourBlindSafe: false,
+    colors: { red: "#ef4444", blue: "#3b82f6", green: "#22c55e", yellow: "#facc15" },
+  },
+  {
+    id: "okabe-ito",
+    name: "Okabe-Ito",
+    colourBlindSafe: true,
+    colors: { red: "#d55e00", blue: "#56b4e9", green: "#009e73", yellow: "#f0e442" },
+  },
+  {
+    id: "tol-bright",
+    name: "Tol bright",
+    colourBlindSafe: true,
+    colors: { red: "#ee6677", blue: "#4477aa", green: "#228833", yellow: "#ccbb44" },
+  },
+  {
+    id: "high-contrast",
+    name: "High contrast",
+    colourBlindSafe: false,
+    colors: { red: "#ff2d2d", blue: "#2d7bff", green: "#00e05a", yellow: "#ffe600" },
+  },
+];
+
+/** What a token shows on top of its colour. */
+export type TokenSkin = "number" | "shape" | "pattern";
+
+export const TOKEN_SKINS: { id: TokenSkin; name: string }[] = [
+  { id: "number", name: "Numbers" },
+  { id: "shape", name: "Shapes" },
+  { id: "pattern", name: "Patterns" },
+];
+
+export type TokenShape = "circle" | "square" | "triangle" | "diamond";
+
+export const TOKEN_SHAPES: Record<PlayerColor, TokenShape> = {
+  red: "triangle",
+  blue: "square",
+  green: "diamond",
+  yellow: "circle",
+};
+
+const INK = "rgba(11, 18, 36, 0.4)";
+
+/** Background layers drawn over a token's colour with the pattern skin. */
+export const TOKEN_PATTERNS: Record<PlayerColor, CSSProperties> = {
+  red: { backgroundImage: `repeating-linear-gradient(45deg, ${INK} 0 2px, transparent 2px 6px)` },
+  blue: {
+    backgroundImage: `radial-gradient(${INK} 1.5px, transparent 1.6px)`,
+    backgroundSize: "6px 6px",
+  },
+  green: {
+    backgroundImage: `conic-gradient(${INK} 25%, transparent 0 50%, ${INK} 0 75%, transparent 0)`,
+    backgroundSize: "8px 8px",
+  },
+  yellow: { backgroundImage: `repeating-linear-gradient(0deg, ${INK} 0 2px, transparent 2px 6px)` },
+};
+
+export type SurfaceId = "slate" | "felt" | "walnut" | "ocean";
+
+/** A board background: `base` under everything, `cell` for plain track squares. */
+export type Surface = { id: SurfaceId; name: string; base: string; cell: string };
+
+export const SURFACES: Surface[] = [
+  { id: "slate", name: "Slate", base: "#0f172a", cell: "#1e293b" },
+  { id: "felt", name: "Felt", base: "#0b3d2e", cell: "#14533f" },
+  { id: "walnut", name: "Walnut", base: "#2e1c11", cell: "#4a3020" },
+  { id: "ocean", name: "Ocean", base: "#0c2a43", cell: "#16405f" },
+];
+
+/** The palette, token skin and board surface this device uses. */
+export type Appearance = { palette: PaletteId; tokens: TokenSkin; surface: SurfaceId };
+
+export const DEFAULT_APPEARANCE: Appearance = {
+  palette: "classic",
+  tokens: "number",
+  surface: "slate",
+};
+
+/** Everything drawing the board needs from the active appearance. */
+export type Theme = {
+  colors: Record<PlayerColor, string>;
+  tokens: TokenSkin;
+  surface: Surface;
+};
+
+export function themeOf(appearance: Appearance): Theme {
+  return {
+    colors: (PALETTES.find((p) => p.id === appearance.palette) ?? PALETTES[0]).colors,
+    tokens: appearance.tokens,
+    surface: SURFACES.find((s) => s.id === appearance.surface) ?? SURFACES[0],
+  };
+}
@@ -0,0 +1,155 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import type { BoardTheme } from "@/lib/ludo";
+import {
+  type Appearance,
+  type Theme,
+  DEFAULT_APPEARANCE,
+  PALETTES,
+  SURFACES,
+  TOKEN_SKINS,
+  themeOf,
+} from "./palette";
+
+export type MotionPreference = "system" | "reduce" | "full";
+
+// `storage` only fires in other tabs; this one tells hooks in the same tab.
+const PREFERENCE_EVENT = "ludo-preference";
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("storage", onChange);
+  window.addEventListener(PREFERENCE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", onChange);
+    window.removeEventListener(PREFERENCE_EVENT, onChange);
+  };
+}
+
+/** A per-device setting kept in localStorage; anything unknown reads as `fallback`. */
+function useStoredPreference<T extends string>(key: string, allowed: readonly T[], fallback: T) {
+  const value = useSyncExternalStore(
+    subscribe,
+    () => {
+      const stored = window.localStorage.getItem(key) as T | null;
+      return stored && allowed.includes(stored) ? stored : fallback;
+    },
+    () => fallback
+  );
+  const setValue = useCallback(
+    (next: T) => {
+      window.localStorage.setItem(key, next);
+      window.dispatchEvent(new Event(PREFERENCE_EVENT));
+    },
+    [key]
+  );
+  return [value, setValue] as const;
+}
+
+const BOARD_THEMES: readonly BoardTheme[] = ["cross", "circle"];
+const MOTION_PREFERENCES: readonly MotionPreference[] = ["system", "reduce", "full"];
+
+/** The board look this device prefers, shared by local and online games. */
+export function useBoardTheme() {
+  return useStoredPreference("ludo-board-theme", BOARD_THEMES, "cross");
+}
+
+export function useMotionPreference() {
+  return useStoredPreference("ludo-motion", MOTION_PREFERENCES, "system");
+}
+
+function subscribeReducedMotion(onChange: () => void) {
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  query.addEventListener("change", onChange);
+  return () => query.removeEventListener("change", onChange);
+}
+
+/** Whether to skip movement effects: the setting, or the OS when set to "system". */
+export function useReducedMotion() {
+  const [preference] = useMotionPreference();
+  const systemReduces = useSyncExternalStore(
+    subscribeReducedMotion,
+    () => window.matchMedia(REDUCED_MOTION_QUERY).matches,
+    () => false
+  );
+  return preference === "system" ? systemReduces : preference === "reduce";
+}
+
+export type SoundSettings = { volume: number; muted: boolean; haptics: boolean };
+
+const SOUND_KEY = "ludo-sound";
+const DEFAULT_SOUND: SoundSettings = { volume: 0.6, muted: false, haptics: true };
+
+function parseSound(raw: string | null): SoundSettings {
+  try {
+    const stored = raw ? (JSON.parse(raw) as Partial<SoundSettings>) : {};
+    return {
+      volume:
+        typeof stored.volume === "number"
+          ? Math.min(Math.max(stored.volume, 0), 1)
+          : DEFAULT_SOUND.volume,
+      muted: typeof stored.muted === "boolean" ? stored.muted : DEFAULT_SOUND.muted,
+      haptics: typeof stored.haptics === "boolean" ? stored.haptics : DEFAULT_SOUND.haptics,
+    };
+  } catch {
+    return DEFAULT_SOUND;
+  }
+}
+
+/** Volume, mute and vibration, kept on this device next to the saved games. */
+export function useSoundSettings() {
+  const raw = useSyncExternalStore(
+    subscribe,
+    () => window.localStorage.getItem(SOUND_KEY),
+    () => null
+  );
+  const settings = useMemo(() => parseSound(raw), [raw]);
+  const update = useCallback((change: Partial<SoundSettings>) => {
+    const next = { ...parseSound(window.localStorage.getItem(SOUND_KEY)), ...change };
+    window.localStorage.setItem(SOUND_KEY, JSON.stringify(next));
+    window.dispatchEvent(new Event(PREFERENCE_EVENT));
+  }, []);
+  return [settings, update] as const;
+}
+
+const APPEARANCE_KEY = "ludo-appearance";
+
+function parseAppearance(raw: string | null): Appearance {
+  try {
+    const stored = raw ? (JSON.parse(raw) as Partial<Appearance>) : {};
+    return {
+      palette: PALETTES.some((p) => p.id === stored.palette)
+        ? stored.palette!
+        : DEFAULT_APPEARANCE.palette,
+      tokens: TOKEN_SKINS.some((s) => s.id === stored.tokens)
+        ? stored.tokens!
+        : DEFAULT_APPEARANCE.tokens,
+      surface: SURFACES.some((s) => s.id === stored.surface)
+        ? stored.surface!
+        : DEFAULT_APPEARANCE.surface,
+    };
+  } catch {
+    return DEFAULT_APPEARANCE;
+  }
+}
+
+/** Palette, token skin and board surface, kept per device like the sound settings. */
+export function useAppearance() {
+  const raw = useSyncExternalStore(
+    subscribe,
+    () => window.localStorage.getItem(APPEARANCE_KEY),
+    () => null
+  );
+  const appearance = useMemo(() => parseAppearance(raw), [raw]);
+  const update = useCallback((change: Partial<Appearance>) => {
+    const next = { ...parseAppearance(window.localStorage.getItem(APPEARANCE_KEY)), ...change };
+    window.localStorage.setItem(APPEARANCE_KEY, JSON.stringify(next));
+    window.dispatchEvent(new Event(PREFERENCE_EVENT));
+  }, []);
+  return [appearance, update] as const;
+}
+
+/** The active theme; every seat colour on screen should come from here. */
+export function useTheme(): Theme {
+  const [appearance] = useAppearance();
+  return useMemo(() => themeOf(appearance), [appearance]);
+}
@@ -0,0 +1,72 @@
+import type { Cue } from "@/lib/ludo";
+
+/** One synthesized beep: pitch, when it starts and how long it rings, in seconds. */
+type Tone = { freq: number; at: number; length: number; type?: OscillatorType; gain?: number };
+
+// Everything is synthesized, so there are no audio files to bundle or fetch.
+const SOUNDS: Record<Cue, Tone[]> = {
+  roll: [0, 0.05, 0.1, 0.15].map((at, i) => ({
+    freq: 180 + i * 40,
+    at,
+    length: 0.04,
+    type: "square",
+    gain: 0.25,
+  })),
+  step: [{ freq: 520, at: 0, length: 0.05, type: "triangle", gain: 0.35 }],
+  capture: [
+    { freq: 440, at: 0, length: 0.1, type: "sawtooth", gain: 0.4 },
+    { freq: 220, at: 0.09, length: 0.2, type: "sawtooth", gain: 0.4 },
+  ],
+  home: [523, 659, 784].map((freq, i) => ({ freq, at: i * 0.09, length: 0.14 })),
+  extraTurn: [
+    { freq: 660, at: 0, length: 0.08 },
+    { freq: 880, at: 0.08, length: 0.12 },
+  ],
+  win: [523, 659, 784, 1047, 784, 1047].map((freq, i) => ({
+    freq,
+    at: i * 0.12,
+    length: i === 5 ? 0.5 : 0.14,
+  })),
+};
+
+const VIBRATIONS: Partial<Record<Cue, number[]>> = {
+  capture: [40, 30, 60],
+  win: [100, 50, 100, 50, 250],
+};
+
+let context: AudioContext | null = null;
+
+// Browsers only let audio start after a user gesture; the first cue usually
+// follows a tap on Roll, and a suspended context is resumed then.
+function audio() {
+  if (typeof window === "undefined" || !window.AudioContext) return null;
+  context ??= new AudioContext();
+  if (context.state === "suspended") void context.resume();
+  return context;
+}
+
+/** Plays `cue` at `volume` (0-1). Silently does nothing without Web Audio. */
+export function playCue(cue: Cue, volume: number) {
+  const ctx = audio();
+  if (!ctx || volume <= 0) return;
+  const start = ctx.currentTime;
+  SOUNDS[cue].forEach(({ freq, at, length, type = "sine", gain = 0.3 }) => {
+    const osc = ctx.createOscillator();
+    const amp = ctx.createGain();
+    osc.type = type;
+    osc.frequency.value = freq;
+    amp.gain.setValueAtTime(gain * volume, start + at);
+    amp.gain.exponentialRampToValueAtTime(0.001, start + at + length);
+    osc.connect(amp).connect(ctx.destination);
+    osc.start(start + at);
+    osc.stop(start + at + length + 0.02);
+  });
+}
+
+/** Buzzes phones that support it, for the cues worth feeling. */
+export function vibrateFor(cue: Cue) {
+  const pattern = VIBRATIONS[cue];
+  if (pattern && typeof navigator !== "undefined" && "vibrate" in navigator) {
+    navigator.vibrate(pattern);
+  }
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from "react";
+import type { GameRecord, Profile } from "@/lib/ludo";
+
+const DB_NAME = "ludo-stats";
+const DB_VERSION = 1;
+const PROFILES = "profiles";
+const GAMES = "games";
+const CHANGE_EVENT = "ludo-stats";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROFILES)) db.createObjectStore(PROFILES, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(GAMES)) db.createObjectStore(GAMES, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Runs one request against `store` and settles once its transaction has. */
+async function run<T>(
+  store: string,
+  mode: IDBTransactionMode,
+  body: (objects: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(store, mode);
+      const request = body(tx.objectStore(store));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const changed = () => window.dispatchEvent(new Event(CHANGE_EVENT));
+
+export function listProfiles() {
+  return run<Profile[]>(PROFILES, "readonly", (s) => s.getAll());
+}
+
+export async function saveProfile(profile: Profile) {
+  await run(PROFILES, "readwrite", (s) => s.put(profile));
+  changed();
+}
+
+/** Removes the profile; its games stay so opponents keep their records. */
+export async function deleteProfile(id: string) {
+  await run(PROFILES, "readwrite", (s) => s.delete(id));
+  changed();
+}
+
+export function listGames() {
+  return run<GameRecord[]>(GAMES, "readonly", (s) => s.getAll());
+}
+
+export async function saveGame(record: GameRecord) {
+  await run(GAMES, "readwrite", (s) => s.put(record));
+  changed();
+}
+
+export type StatsData = { profiles: Profile[]; games: GameRecord[]; error: string | null };
+
+/** Profiles and game records, reloaded whenever this tab changes them. */
+export function useStatsData(): StatsData | null {
+  const [data, setData] = useState<StatsData | null>(null);
+
+  const load = useCallback(() => {
+    Promise.all([listProfiles(), listGames()])
+      .then(([profiles, games]) =>
+        setData({
+          profiles: profiles.sort((a, b) => a.name.localeCompare(b.name)),
+          games,
+          error: null,
+        })
+      )
+      .catch((error: unknown) =>
+        setData({
+          profiles: [],
+          games: [],
+          error: error instanceof Error ? error.message : "Stats storage is unavailable",
+        })
+      );
+  }, []);
+
+  useEffect(() => {
+    load();
+    window.addEventListener(CHANGE_EVENT, load);
+    return () => window.removeEventListener(CHANGE_EVENT, load);
+  }, [load]);
+
+  return data;
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import type { GameState, MoveAnalysis, MoveMistake } from "@/lib/ludo";
+
+export type AnalysisRequest = { kind: "moves" | "review"; game: GameState };
+
+export type AnalysisResponse =
+  | { kind: "moves"; moves: MoveAnalysis[] }
+  | { kind: "progress"; done: number }
+  | { kind: "review"; mistakes: MoveMistake[] };
+
+/** Starts a worker on `request`; the returned function stops it. */
+function startAnalysis(request: AnalysisRequest, onMessage: (message: AnalysisResponse) => void) {
+  const worker = new Worker(new URL("./analysis.worker.ts", import.meta.url));
+  worker.addEventListener("message", (event: MessageEvent<AnalysisResponse>) =>
+    onMessage(event.data)
+  );
+  worker.postMessage(request);
+  return () => worker.terminate();
+}
+
+/**
+ * The options for the dice on the table in `game`, best first, or null
+ * while they are still being worked out. Pass null to analyse nothing.
+ */
+export function useMoveHints(game: GameState | null) {
+  const [result, setResult] = useState<{ game: GameState; moves: MoveAnalysis[] } | null>(null);
+
+  useEffect(() => {
+    if (!game) return;
+    return startAnalysis({ kind: "moves", game }, (message) => {
+      if (message.kind === "moves") setResult({ game, moves: message.moves });
+    });
+  }, [game]);
+
+  return game && result?.game === game ? result.moves : null;
+}
+
+export type GameReview = {
+  /** Share of the game reviewed so far, 0 to 1. */
+  done: number;
+  /** Set once the whole game has been reviewed. */
+  mistakes: MoveMistake[] | null;
+};
+
+/** Reviews every move of a finished `game`; pass null to review nothing. */
+export function useGameReview(game: GameState | null): GameReview | null {
+  const [review, setReview] = useState<(GameReview & { game: GameState }) | null>(null);
+
+  useEffect(() => {
+    if (!game) return;
+    return startAnalysis({ kind: "review", game }, (message) => {
+      if (message.kind === "progress") setReview({ game, done: message.done, mistakes: null });
+      if (message.kind === "review") setReview({ game, done: 1, mistakes: message.mistakes });
+    });
+  }, [game]);
+
+  if (!game) return null;
+  return review?.game === game ? review : { done: 0, mistakes: null };
+}
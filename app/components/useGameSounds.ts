@@ -0,0 +1,27 @@
+import { useEffect, useRef } from "react";
+import { type AnimationFrame, type Cue, type GameState, cuesFor } from "@/lib/ludo";
+import { useSoundSettings } from "./preferences";
+import { playCue, vibrateFor } from "./sound";
+
+/**
+ * Plays the sounds and vibrations for each change to `state`, plus a tick
+ * for every hop of the move animation.
+ */
+export function useGameSounds(state: GameState | null, animation: AnimationFrame | null) {
+  const [{ volume, muted, haptics }] = useSoundSettings();
+  const previous = useRef(state);
+
+  useEffect(() => {
+    const prev = previous.current;
+    previous.current = state;
+    if (!prev || !state) return;
+    cuesFor(prev, state).forEach((cue: Cue) => {
+      if (!muted) playCue(cue, volume);
+      if (haptics) vibrateFor(cue);
+    });
+  }, [state, volume, muted, haptics]);
+
+  useEffect(() => {
+    if (animation?.hop && !muted) playCue("step", volume);
+  }, [animation, volume, muted]);
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { type AnimationFrame, type GameState, moveFrames } from "@/lib/ludo";
+
+type Run = { frames: AnimationFrame[]; index: number };
+
+/**
+ * Plays each new move of `state` frame by frame. Only a single move added
+ * to the same game animates; undo, loading and jumps just show the result.
+ * With `reducedMotion` only the finish celebration remains.
+ */
+export function useMoveAnimation(state: GameState | null, reducedMotion: boolean) {
+  const [seen, setSeen] = useState(state);
+  const [run, setRun] = useState<Run | null>(null);
+
+  if (state !== seen) {
+    setSeen(state);
+    const last = state?.log[state.log.length - 1];
+    const oneMoveLater =
+      !!state &&
+      !!seen &&
+      state.id === seen.id &&
+      state.log.length === seen.log.length + 1 &&
+      last?.kind === "move";
+    let frames = oneMoveLater ? moveFrames(state, last) : [];
+    if (reducedMotion) frames = frames.filter((frame) => frame.celebrate);
+    setRun(frames.length ? { frames, index: 0 } : null);
+  }
+
+  useEffect(() => {
+    if (!run) return;
+    const timer = window.setTimeout(() => {
+      setRun((current) =>
+        current && current.index + 1 < current.frames.length
+          ? { ...current, index: current.index + 1 }
+          : null
+      );
+    }, run.frames[run.index].ms);
+    return () => window.clearTimeout(timer);
+  }, [run]);
+
+  return { frame: run ? run.frames[run.index] : null, frameIndex: run?.index ?? 0, busy: !!run };
+}
@@ -0,0 +1,22 @@
+import { useEffect } from "react";
+
+/**
+ * Pressing R anywhere outside a text field presses the on-screen Roll button
+ * (marked `data-roll-button`), so the shortcut is locked whenever it is.
+ */
+export function useRollShortcut() {
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== "r" && event.key !== "R") return;
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable]")) return;
+      const button = document.querySelector<HTMLButtonElement>("[data-roll-button]");
+      if (!button || button.disabled) return;
+      event.preventDefault();
+      button.click();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+}
@@ -0,0 +1,34 @@
+import { useCallback, useState } from "react";
+import {
+  type ChatLine,
+  type ChatPost,
+  type GameState,
+  type PlayerColor,
+  addChatLines,
+  chatLineFor,
+  systemLines,
+} from "@/lib/ludo";
+
+/**
+ * The chat for a game played on one device: a table log narrating `state`,
+ * plus whatever the players post. It lasts as long as the page does.
+ */
+export function useTableChat(state: GameState | null) {
+  const [seen, setSeen] = useState(state);
+  const [lines, setLines] = useState<ChatLine[]>([]);
+
+  if (state !== seen) {
+    setSeen(state);
+    const added = state && seen ? systemLines(seen, state) : [];
+    if (added.length) {
+      setLines(addChatLines(lines, added.map((text) => ({ kind: "system", color: null, text }))));
+    }
+  }
+
+  const post = useCallback((message: ChatPost, color: PlayerColor) => {
+    const line = chatLineFor(message, color);
+    if (line) setLines((current) => addChatLines(current, [line]));
+  }, []);
+
+  return [lines, post] as const;
+}
@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Ludo Lounge",
+    short_name: "Ludo",
+    description: "Mobile-friendly Ludo with on-device saves",
+    start_url: "/",
+    display: "standalone",
+    orientation: "portrait",
+    background_color: "#020617",
+    theme_color: "#0f172a",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      { src: "/icons/maskable-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+      { src: "/icons/icon.svg", sizes: "any", type: "image/svg+xml" },
+    ],
+  };
+}
@@ -0,0 +1,324 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Board from "../../components/Board";
+import ChatPanel from "../../components/ChatPanel";
+import GameResults from "../../components/GameResults";
+import TeamProgress from "../../components/TeamProgress";
+import { useBoardTheme, useReducedMotion, useTheme } from "../../components/preferences";
+import { useMoveAnimation } from "../../components/useMoveAnimation";
+import { useRollShortcut } from "../../components/useRollShortcut";
+import { useGameSounds } from "../../components/useGameSounds";
+import SoundControls from "../../components/SoundControls";
+import AppearanceControls from "../../components/AppearanceControls";
+import LiveAnnouncer from "../../components/LiveAnnouncer";
+import { type ChatPost, type PlayerColor, currentMoves, findPlayer } from "@/lib/ludo";
+import type { RoomAction, RoomSnapshot } from "@/lib/server/rooms";
+import { type SeatHold, postJson, readSeatHold, seatKey } from "../roomClient";
+
+type Connection = "connecting" | "live" | "lost" | "missing";
+
+export default function OnlineRoom() {
+  const code = useParams<{ code: string }>().code.toUpperCase();
+  const [snapshot, setSnapshot] = useState<RoomSnapshot | null>(null);
+  const [seat, setSeat] = useState<SeatHold | null>(null);
+  const [watching, setWatching] = useState(false);
+  const [connection, setConnection] = useState<Connection>("connecting");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [boardTheme, setBoardTheme] = useBoardTheme();
+  const theme = useTheme();
+  const reducedMotion = useReducedMotion();
+  const { frame, frameIndex, busy: animating } = useMoveAnimation(
+    snapshot?.state ?? null,
+    reducedMotion
+  );
+  useRollShortcut();
+  useGameSounds(snapshot?.state ?? null, frame);
+  const token = seat?.token;
+
+  // Snapshots arrive from the stream and from our own requests; keep the newest.
+  const receive = useCallback((next: RoomSnapshot) => {
+    setSnapshot((current) => (current && current.version > next.version ? current : next));
+    setDeadline(next.turnEndsIn === null ? null : Date.now() + next.turnEndsIn);
+  }, []);
+
+  // Take back a seat this browser held before a reload or dropped connection.
+  useEffect(() => {
+    const hold = readSeatHold(code);
+    if (!hold) return;
+    postJson<{ color: PlayerColor; snapshot: RoomSnapshot }>(`/api/rooms/${code}/join`, {
+      token: hold.token,
+    })
+      .then(({ color, snapshot: next }) => {
+        setSeat({ color, token: hold.token });
+        receive(next);
+      })
+      .catch(() => window.localStorage.removeItem(seatKey(code)));
+  }, [code, receive]);
+
+  useEffect(() => {
+    const query = token ? `?token=${encodeURIComponent(token)}` : "";
+    const events = new EventSource(`/api/rooms/${code}/events${query}`);
+    events.onopen = () => setConnection("live");
+    events.onmessage = (event) => receive(JSON.parse(event.data) as RoomSnapshot);
+    events.onerror = () => {
+      // EventSource retries by itself; a 404 closes it for good.
+      setConnection(events.readyState === EventSource.CLOSED ? "missing" : "lost");
+    };
+    return () => events.close();
+  }, [code, token, receive]);
+
+  useEffect(() => {
+    if (deadline === null) return;
+    const tick = () => setSecondsLeft(Math.max(Math.ceil((deadline - Date.now()) / 1000), 0));
+    const timer = window.setInterval(tick, 250);
+    const first = window.setTimeout(tick, 0);
+    return () => {
+      window.clearInterval(timer);
+      window.clearTimeout(first);
+    };
+  }, [deadline]);
+
+  const claim = async (color: PlayerColor) => {
+    setError(null);
+    try {
+      const { token, snapshot: next } = await postJson<{ token: string; snapshot: RoomSnapshot }>(
+        `/api/rooms/${code}/join`,
+        { color, name }
+      );
+      const hold = { color, token };
+      window.localStorage.setItem(seatKey(code), JSON.stringify(hold));
+      setSeat(hold);
+      receive(next);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const act = async (action: RoomAction) => {
+    if (!seat || pending) return;
+    setError(null);
+    setPending(true);
+    try {
+      receive(
+        await postJson<RoomSnapshot>(`/api/rooms/${code}/actions`, {
+          token: seat.token,
+          action,
+        })
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setPending(false);
+    }
+  };
+
+  // Chat failures show in the same place as refused moves.
+  const chat = async (post: ChatPost) => {
+    if (!seat) return;
+    setError(null);
+    try {
+      receive(
+        await postJson<RoomSnapshot>(`/api/rooms/${code}/chat`, { token: seat.token, post })
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!snapshot) {
+    return (
+      <main className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-950 text-white flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-lg font-medium">
+            {connection === "missing" ? `Room ${code} does not exist.` : `Joining room ${code}...`}
+          </p>
+          <Link href="/online" className="mt-2 inline-block text-sm text-slate-400 underline">
+            Back to the lobby
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  const { state, seats } = snapshot;
+  const currentPlayer = findPlayer(state.players, state.currentPlayer);
+  const everyoneSeated = state.players.every((p) => seats[p.color]);
+  const myTurn =
+    !!seat && seat.color === state.currentPlayer && everyoneSeated && !state.winner;
+  const moves = myTurn ? currentMoves(state) : [];
+  const shareUrl = typeof window === "undefined" ? "" : window.location.href;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 text-slate-50">
+      <LiveAnnouncer state={state} />
+      <div className="mx-auto max-w-6xl px-4 py-8 sm:py-12">
+        <header className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <p className="text-sm uppercase tracking-[0.2em] text-slate-400">Network game</p>
+            <h1 className="text-3xl font-semibold text-white sm:text-4xl">Room {snapshot.code}</h1>
+            <p className="text-slate-400">
+              Others join at <span className="font-mono text-slate-300">{shareUrl}</span>
+            </p>
+          </div>
+          <div className="rounded-2xl bg-white/5 px-4 py-3 text-sm">
+            <p className="text-xs text-slate-400">
+              {connection === "live" ? "Connected" : "Reconnecting..."}
+            </p>
+            <p className="font-semibold">
+              {seat ? `You are ${findPlayer(state.players, seat.color).label}` : "Watching"}
+            </p>
+            {snapshot.spectators > 0 && (
+              <p className="text-xs text-slate-400">
+                {snapshot.spectators} watching
+              </p>
+            )}
+          </div>
+        </header>
+
+        <div className="mt-8 grid gap-6 lg:grid-cols-[minmax(0,1.2fr),minmax(280px,0.8fr)]">
+          <section className="rounded-3xl border border-white/10 bg-white/5 p-4 shadow-2xl backdrop-blur">
+            <Board
+              state={state}
+              moves={moves}
+              interactive={myTurn && !pending && !animating}
+              colors={theme.colors}
+              skin={theme.tokens}
+              surface={theme.surface}
+              theme={boardTheme}
+              animation={frame}
+              animationStep={frameIndex}
+              reducedMotion={reducedMotion}
+              onMove={(tokenId) => act({ type: "move", tokenId })}
+            />
+            <div className="mt-3 flex flex-wrap items-center justify-end gap-2 text-xs text-slate-400">
+              <SoundControls />
+              <AppearanceControls />
+              <button
+                onClick={() => setBoardTheme(boardTheme === "cross" ? "circle" : "cross")}
+                className="rounded-full border border-white/15 px-3 py-1 text-white/80 transition hover:bg-white/5"
+              >
+                {boardTheme === "cross" ? "Circle board" : "Classic board"}
+              </button>
+            </div>
+          </section>
+
+          <aside className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 p-4 shadow-2xl backdrop-blur">
+            <div className="rounded-2xl border border-white/10 bg-slate-900/80 p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-xs text-slate-400">Dice</p>
+                  <div
+                    role="img"
+                    aria-label={state.dice ? `Dice showing ${state.dice}` : "Dice not rolled"}
+                    className="flex h-12 w-12 items-center justify-center rounded-lg border border-white/15 bg-white/5 text-2xl font-black">
+                    {state.dice ?? "-"}
+                  </div>
+                </div>
+                <button
+                  onClick={() => act({ type: "roll" })}
+                  data-roll-button
+                  aria-keyshortcuts="R"
+                  disabled={!myTurn || !!state.dice || pending || animating}
+                  className="rounded-xl bg-white text-slate-900 px-4 py-2 text-sm font-semibold shadow-lg shadow-blue-500/30 transition hover:scale-[1.02] disabled:opacity-50"
+                >
+                  Roll
+                </button>
+              </div>
+              <p className="mt-2 text-sm text-slate-300">
+                {everyoneSeated ? state.message : "Waiting for every seat to be claimed"}
+              </p>
+              {everyoneSeated && !state.winner && !myTurn && (
+                <p className="mt-1 text-xs text-slate-500">{currentPlayer.label} to play</p>
+              )}
+              {snapshot.turnEndsIn !== null && secondsLeft !== null && (
+                <p
+                  className={`mt-1 text-xs ${
+                    myTurn && secondsLeft <= 10 ? "text-amber-300" : "text-slate-400"
+                  }`}
+                >
+                  {secondsLeft}s left in {myTurn ? "your" : `${currentPlayer.label}'s`} turn
+                </p>
+              )}
+              {error && <p className="mt-2 text-xs text-rose-300">{error}</p>}
+            </div>
+
+            {state.winner && !animating && <GameResults state={state} colors={theme.colors} />}
+
+            <ChatPanel
+              state={state}
+              lines={snapshot.chat}
+              colors={theme.colors}
+              speakers={seat ? [seat.color] : []}
+              onPost={chat}
+            />
+
+            {!seat && !watching && !everyoneSeated && (
+              <div className="rounded-2xl border border-white/10 bg-slate-900/80 p-4 text-sm">
+                <p className="mb-2 font-semibold text-white">Take a seat</p>
+                <input
+                  type="text"
+                  value={name}
+                  maxLength={20}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Your name"
+                  className="mb-2 w-full rounded-lg border border-white/10 bg-white/5 px-2 py-1"
+                />
+                <button
+                  onClick={() => setWatching(true)}
+                  className="text-xs text-slate-400 underline"
+                >
+                  Just watch
+                </button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              {state.players.map((player) => (
+                <div
+                  key={player.color}
+                  className={`rounded-2xl border border-white/10 p-3 ${
+                    player.color === state.currentPlayer ? "bg-white/10" : "bg-slate-900/70"
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="h-3 w-3 rounded-full"
+                      style={{ backgroundColor: theme.colors[player.color] }}
+                    />
+                    <p className="text-sm font-semibold">{player.label}</p>
+                  </div>
+                  {seats[player.color] ? (
+                    <p className="mt-2 text-xs text-slate-400">
+                      {seat?.color === player.color
+                        ? "You"
+                        : seats[player.color]!.connected
+                        ? "Connected"
+                        : "Disconnected"}
+                    </p>
+                  ) : (
+                    <button
+                      onClick={() => claim(player.color)}
+                      disabled={!!seat || watching}
+                      className="mt-2 rounded-lg border border-white/15 px-3 py-1 text-xs font-semibold text-white/90 transition hover:bg-white/5 disabled:opacity-40"
+                    >
+                      Sit here
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {state.rules.teams && <TeamProgress state={state} colors={theme.colors} />}
+          </aside>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import RuleSetPicker from "../components/RuleSetPicker";
+import { useTheme } from "../components/preferences";
+import {
+  type GameSetup,
+  type PlayerColor,
+  DEFAULT_RULES,
+  MIN_PLAYERS,
+  SEAT_ORDER,
+  defaultLabel,
+} from "@/lib/ludo";
+import type { RoomSnapshot, TurnTimer } from "@/lib/server/rooms";
+import { postJson } from "./roomClient";
+
+const TURN_LENGTHS = [0, 20, 30, 60, 120];
+
+const FALLBACKS: { value: TurnTimer["fallback"]; label: string }[] = [
+  { value: "first", label: "First legal move" },
+  { value: "easy", label: "Bot - Easy" },
+  { value: "normal", label: "Bot - Normal" },
+  { value: "hard", label: "Bot - Hard" },
+];
+
+export default function OnlineLobby() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const [seated, setSeated] = useState<PlayerColor[]>([...SEAT_ORDER]);
+  const [rollForFirst, setRollForFirst] = useState(false);
+  const [rules, setRules] = useState(DEFAULT_RULES);
+  const [turnSeconds, setTurnSeconds] = useState(0);
+  const [fallback, setFallback] = useState<TurnTimer["fallback"]>("first");
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleSeat = (color: PlayerColor) => {
+    setSeated((current) =>
+      current.includes(color)
+        ? current.filter((c) => c !== color)
+        : SEAT_ORDER.filter((c) => c === color || current.includes(c))
+    );
+  };
+
+  const fullTable = seated.length === SEAT_ORDER.length;
+
+  const createRoom = async () => {
+    setBusy(true);
+    setError(null);
+    const setup: Partial<GameSetup> = {
+      seats: seated.map((color) => ({ color, label: defaultLabel(color) })),
+      firstPlayer: rollForFirst ? "roll" : seated[0],
+      rules: { ...rules, teams: rules.teams && fullTable },
+    };
+    try {
+      const timer: TurnTimer | null = turnSeconds ? { seconds: turnSeconds, fallback } : null;
+      const room = await postJson<RoomSnapshot>("/api/rooms", { setup, timer });
+      router.push(`/online/${room.code}`);
+    } catch (err) {
+      setError((err as Error).message);
+      setBusy(false);
+    }
+  };
+
+  const joinRoom = () => {
+    const trimmed = code.trim().toUpperCase();
+    if (trimmed) router.push(`/online/${trimmed}`);
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 text-slate-50">
+      <div className="mx-auto max-w-xl px-4 py-8 sm:py-12">
+        <p className="text-sm uppercase tracking-[0.2em] text-slate-400">Ludo Lounge</p>
+        <h1 className="text-3xl font-semibold text-white">Play over the network</h1>
+        <p className="text-slate-400">
+          Everyone on this network opens this page, then joins the same room code.{" "}
+          <Link href="/" className="underline">
+            Back to local play
+          </Link>
+        </p>
+
+        <section className="mt-6 rounded-2xl border border-white/10 bg-slate-900/80 p-4">
+          <p className="mb-3 font-semibold text-white">Join a room</p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={code}
+              maxLength={5}
+              onChange={(e) => setCode(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && joinRoom()}
+              placeholder="Room code"
+              aria-label="Room code"
+              className="w-full rounded-lg border border-white/10 bg-white/5 px-2 py-1 uppercase tracking-widest"
+            />
+            <button
+              onClick={joinRoom}
+              disabled={!code.trim()}
+              className="rounded-xl bg-white px-4 py-2 text-sm font-semibold text-slate-900 disabled:opacity-50"
+            >
+              Join
+            </button>
+          </div>
+        </section>
+
+        <section className="mt-4 space-y-4 rounded-2xl border border-white/10 bg-slate-900/80 p-4 text-sm text-slate-200">
+          <p className="font-semibold text-white">Host a new room</p>
+          <div className="flex flex-wrap gap-3">
+            {SEAT_ORDER.map((color) => (
+              <label key={color} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={seated.includes(color)}
+                  onChange={() => toggleSeat(color)}
+                />
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: colors[color] }} />
+                {defaultLabel(color)}
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={rollForFirst}
+              onChange={(e) => setRollForFirst(e.target.checked)}
+            />
+            Roll for first turn
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="mb-1 block text-xs uppercase tracking-wide text-slate-400">
+                Turn timer
+              </span>
+              <select
+                value={turnSeconds}
+                onChange={(e) => setTurnSeconds(Number(e.target.value))}
+                className="w-full rounded-lg border border-white/10 bg-slate-900 px-2 py-1"
+              >
+                {TURN_LENGTHS.map((seconds) => (
+                  <option key={seconds} value={seconds}>
+                    {seconds ? `${seconds} seconds` : "No limit"}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="mb-1 block text-xs uppercase tracking-wide text-slate-400">
+                When time runs out
+              </span>
+              <select
+                value={fallback}
+                disabled={!turnSeconds}
+                onChange={(e) => setFallback(e.target.value as TurnTimer["fallback"])}
+                className="w-full rounded-lg border border-white/10 bg-slate-900 px-2 py-1 disabled:opacity-40"
+              >
+                {FALLBACKS.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div>
+            <p className="mb-2 text-xs uppercase tracking-wide text-slate-400">House rules</p>
+            <RuleSetPicker rules={rules} onChange={setRules} fullTable={fullTable} />
+          </div>
+          {seated.length < MIN_PLAYERS && (
+            <p className="text-xs text-amber-300">Seat at least {MIN_PLAYERS} players.</p>
+          )}
+          {error && <p className="text-xs text-rose-300">{error}</p>}
+          <button
+            onClick={createRoom}
+            disabled={busy || seated.length < MIN_PLAYERS}
+            className="rounded-xl bg-white px-4 py-2 text-sm font-semibold text-slate-900 shadow-lg shadow-blue-500/30 transition hover:scale-[1.02] disabled:opacity-50"
+          >
+            Create room
+          </button>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,39 @@
+import { type PlayerColor, SEAT_ORDER } from "@/lib/ludo";
+
+/** The seat this browser holds in a room, remembered across reloads. */
+export type SeatHold = { color: PlayerColor; token: string };
+
+export const seatKey = (code: string) => `ludo-room:${code}`;
+
+/** The seat remembered for `code`; anything unreadable is forgotten. */
+export function readSeatHold(code: string): SeatHold | null {
+  const saved = window.localStorage.getItem(seatKey(code));
+  if (!saved) return null;
+  try {
+    const hold = JSON.parse(saved) as Partial<SeatHold> | null;
+    if (
+      hold &&
+      typeof hold.token === "string" &&
+      hold.token &&
+      SEAT_ORDER.includes(hold.color as PlayerColor)
+    ) {
+      return { color: hold.color as PlayerColor, token: hold.token };
+    }
+  } catch {
+    // Not JSON; dropped below like any other damaged entry.
+  }
+  window.localStorage.removeItem(seatKey(code));
+  return null;
+}
+
+/** POSTs JSON to a room route; rejects with the server's message when refused. */
+export async function postJson<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error ?? `Request failed (${response.status})`);
+  return data as T;
+}
@@ -1,275 +1,216 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-
-type PlayerColor = "red" | "blue" | "green" | "yellow";
-
-type Token = {
-  id: string;
-  steps: number | null; // null = home, 0-51 track, 52-56 final, 57 done
-};
-
-type Player = {
-  color: PlayerColor;
-  label: string;
-  startIndex: number;
-  tokens: Token[];
-};
-
-type GameState = {
-  players: Player[];
-  currentPlayer: PlayerColor;
-  dice: number | null;
-  message: string;
-  winner: PlayerColor | null;
-};
-
-type MoveOption = {
-  tokenId: string;
-  nextSteps: number;
-  willCapture: string[];
-};
-
-const COLORS: Record<PlayerColor, string> = {
-  red: "#ef4444",
-  blue: "#3b82f6",
-  green: "#22c55e",
-  yellow: "#facc15",
-};
-
-const START_INDICES: Record<PlayerColor, number> = {
-  red: 0,
-  blue: 13,
-  yellow: 26,
-  green: 39,
-};
-
-const SAFE_CELLS = new Set([0, 8, 13, 21, 26, 34, 39, 47]);
-const STORAGE_KEY = "ludo-state-v1";
-const TOKENS_PER_PLAYER = 4;
-const FINAL_STEPS_START = 52;
-const FINAL_STEPS_END = 57; // inclusive, 57 means finished
-
-function createPlayers(): Player[] {
-  const order: PlayerColor[] = ["red", "blue", "yellow", "green"];
-  return order.map((color) => ({
-    color,
-    label: color[0].toUpperCase() + color.slice(1),
-    startIndex: START_INDICES[color],
-    tokens: Array.from({ length: TOKENS_PER_PLAYER }).map((_, idx) => ({
-      id: `${color}-${idx + 1}`,
-      steps: null,
-    })),
-  }));
-}
-
-function initialState(): GameState {
-  const players = createPlayers();
-  return {
-    players,
-    currentPlayer: players[0].color,
-    dice: null,
-    message: "Roll to start",
-    winner: null,
-  };
-}
-
-function clampSteps(steps: number | null) {
-  if (steps === null) return null;
-  if (steps < 0) return 0;
-  if (steps > FINAL_STEPS_END) return FINAL_STEPS_END;
-  return steps;
-}
-
-function tokenPhase(steps: number | null, startIndex: number) {
-  if (steps === null) return { phase: "home" as const };
-  if (steps >= FINAL_STEPS_END) return { phase: "done" as const };
-  if (steps >= FINAL_STEPS_START) {
-    return { phase: "final" as const, finalIndex: steps - FINAL_STEPS_START };
-  }
-  const trackIndex = (startIndex + steps) % 52;
-  return { phase: "track" as const, trackIndex };
-}
-
-function randomDice(): number {
-  return Math.floor(Math.random() * 6) + 1;
-}
-
-function findPlayer(players: Player[], color: PlayerColor) {
-  return players.find((p) => p.color === color)!;
-}
-
-function buildTrackOccupancy(players: Player[]) {
-  const map = new Map<number, (Token & { color: PlayerColor })[]>();
-  players.forEach((player) => {
-    player.tokens.forEach((token) => {
-      const info = tokenPhase(token.steps, player.startIndex);
-      if (info.phase === "track") {
-        const current = map.get(info.trackIndex) ?? [];
-        current.push({ ...token, color: player.color });
-        map.set(info.trackIndex, current);
-      }
-    });
-  });
-  return map;
-}
-
-function computeValidMoves(
-  game: GameState,
-  dice: number
-): { moves: MoveOption[]; reason?: string } {
-  if (game.winner) return { moves: [], reason: "Game finished" };
-  const player = findPlayer(game.players, game.currentPlayer);
-  const occupancy = buildTrackOccupancy(game.players);
-  const moves: MoveOption[] = [];
-
-  player.tokens.forEach((token) => {
-    const info = tokenPhase(token.steps, player.startIndex);
-    if (info.phase === "home") {
-      if (dice === 6) {
-        moves.push({ tokenId: token.id, nextSteps: 0, willCapture: [] });
-      }
-      return;
-    }
-
-    const candidate = token.steps === null ? 0 : token.steps + dice;
-    if (candidate > FINAL_STEPS_END) return;
-
-    const nextInfo = tokenPhase(candidate, player.startIndex);
-    if (nextInfo.phase === "track") {
-      const occupants = occupancy.get(nextInfo.trackIndex) ?? [];
-      const opponents = occupants.filter((o) => o.color !== player.color);
-      const willCapture =
-        opponents.length > 0 && !SAFE_CELLS.has(nextInfo.trackIndex)
-          ? opponents.map((o) => o.id)
-          : [];
-      moves.push({ tokenId: token.id, nextSteps: candidate, willCapture });
-      return;
-    }
-
-    moves.push({ tokenId: token.id, nextSteps: candidate, willCapture: [] });
-  });
-
-  return moves.length
-    ? { moves }
-    : {
-        moves: [],
-        reason:
-          dice === 6
-            ? "No piece can enter or move; roll again."
-            : "No valid moves this turn.",
-      };
-}
-
-function nextPlayerColor(current: PlayerColor, players: Player[]) {
-  const order = players.map((p) => p.color);
-  const idx = order.indexOf(current);
-  return order[(idx + 1) % order.length];
-}
-
-function hasWinner(players: Player[]) {
-  return players.find((p) =>
-    p.tokens.every((t) => clampSteps(t.steps) === FINAL_STEPS_END)
-  );
-}
-
-function persistableState(state: GameState) {
-  return JSON.stringify(state);
-}
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import Board from "./components/Board";
+import ChatPanel from "./components/ChatPanel";
+import GameResults from "./components/GameResults";
+import HistoryList from "./components/HistoryList";
+import MoveReview from "./components/MoveReview";
+import NewGameSetup from "./components/NewGameSetup";
+import ReplayControls from "./components/ReplayControls";
+import SaveErrorScreen from "./components/SaveErrorScreen";
+import SavedGamesPanel from "./components/SavedGamesPanel";
+import TeamProgress from "./components/TeamProgress";
+import {
+  useBoardTheme,
+  useMotionPreference,
+  useReducedMotion,
+  useTheme,
+} from "./components/preferences";
+import { useMoveAnimation } from "./components/useMoveAnimation";
+import { useRollShortcut } from "./components/useRollShortcut";
+import { useGameSounds } from "./components/useGameSounds";
+import { useMoveHints } from "./components/useAnalysis";
+import { useTableChat } from "./components/useTableChat";
+import SoundControls from "./components/SoundControls";
+import AppearanceControls from "./components/AppearanceControls";
+import LiveAnnouncer from "./components/LiveAnnouncer";
+import { downloadJson } from "./components/download";
+import { saveGame } from "./components/statsStore";
+import {
+  type Action,
+  type DiceSource,
+  type GameSetup,
+  type GameState,
+  type MoveOption,
+  type Player,
+  type SlotSummary,
+  SaveError,
+  adoptLegacySave,
+  chooseMove,
+  FINAL_STEPS_END,
+  clampSteps,
+  computeValidMoves,
+  createSlot,
+  deleteSlot,
+  describeMove,
+  describeToken,
+  duplicateSlot,
+  exportFileName,
+  findPlayer,
+  gameReducer,
+  getActiveSlot,
+  importSlot,
+  initialState,
+  listSlots,
+  loadSlot,
+  recordGame,
+  move,
+  movePreview,
+  ordinal,
+  manualDice,
+  readSlotRaw,
+  redo,
+  renameSlot,
+  replayFrames,
+  roll,
+  seededDice,
+  seededRandom,
+  setActiveSlot,
+  setupOf,
+  tokenName,
+  undo,
+  writeSlot,
+} from "@/lib/ludo";
+
+// Single-game keys from before save slots; adopted into the first slot.
+const SINGLE_SAVE_KEY = "ludo-save";
+const LEGACY_STORAGE_KEY = "ludo-state-v1";
+const FIRST_SLOT_NAME = "My game";
+const ROLL_ANIMATION_MS = 650;
+
+type Replay = { frames: GameState[]; index: number; playing: boolean };
 
 export default function Home() {
-  const [state, setState] = useState<GameState | null>(null);
+  const [liveState, setState] = useState<GameState | null>(null);
   const [hydrated, setHydrated] = useState(false);
-  const [availableMoves, setAvailableMoves] = useState<MoveOption[]>([]);
   const [diceRolling, setDiceRolling] = useState(false);
   const [lastRoll, setLastRoll] = useState<number | null>(null);
+  const [setupOpen, setSetupOpen] = useState(false);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [loadError, setLoadError] = useState<{ error: SaveError; raw: string } | null>(null);
+  const [activeSlot, setActiveSlotId] = useState<string | null>(null);
+  const [savesOpen, setSavesOpen] = useState(false);
+  const [slots, setSlots] = useState<SlotSummary[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  // The position a hint was asked for; any later move or undo clears it.
+  const [hintFor, setHintFor] = useState<GameState | null>(null);
+  const [boardTheme, setBoardTheme] = useBoardTheme();
+  const theme = useTheme();
+  const [motion, setMotion] = useMotionPreference();
+  const reducedMotion = useReducedMotion();
+  // While replaying, the board shows a past frame instead of the live game.
+  const state = replay ? replay.frames[replay.index] : liveState;
+  const { frame, frameIndex, busy: animating } = useMoveAnimation(state, reducedMotion);
+  useRollShortcut();
+  useGameSounds(state, frame);
+  const hints = useMoveHints(hintFor && hintFor === state ? hintFor : null);
+  const [chat, postChat] = useTableChat(liveState);
+
+  const dispatch = useCallback((action: Action) => {
+    setState((prev) => (prev ? gameReducer(prev, action) : prev));
+  }, []);
+
+  const rollDice = useCallback((game: GameState, source: DiceSource) => {
+    const value = source.roll(game);
+    setDiceRolling(true);
+    setLastRoll(value);
+    dispatch(roll(value));
+    setTimeout(() => setDiceRolling(false), ROLL_ANIMATION_MS);
+  }, [dispatch]);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
-    const stored = window.localStorage.getItem(STORAGE_KEY);
-    if (stored) {
+    const storage = window.localStorage;
+    if (!adoptLegacySave(storage, SINGLE_SAVE_KEY, FIRST_SLOT_NAME)) {
+      adoptLegacySave(storage, LEGACY_STORAGE_KEY, FIRST_SLOT_NAME);
+    }
+    const id = getActiveSlot(storage) ?? listSlots(storage)[0]?.id ?? null;
+    if (id) {
+      setActiveSlotId(id);
       try {
-        const parsed = JSON.parse(stored) as GameState;
-        setState(parsed);
+        setState(loadSlot(storage, id));
         setHydrated(true);
-        return;
-      } catch {
-        // ignore parse errors
+      } catch (error) {
+        if (!(error instanceof SaveError)) throw error;
+        // Leave the damaged save in place until the player decides.
+        setLoadError({ error, raw: readSlotRaw(storage, id) ?? "" });
       }
+      return;
     }
-    setState(initialState());
+    const fresh = initialState();
+    const meta = createSlot(storage, FIRST_SLOT_NAME, fresh);
+    setActiveSlot(storage, meta.id);
+    setActiveSlotId(meta.id);
+    setState(fresh);
     setHydrated(true);
   }, []);
 
   useEffect(() => {
-    if (!hydrated || !state) return;
-    window.localStorage.setItem(STORAGE_KEY, persistableState(state));
-  }, [state, hydrated]);
-
-  const ringPoints = useMemo(() => {
-    const center = 50;
-    const radius = 42;
-    return Array.from({ length: 52 }).map((_, idx) => {
-      const angle = idx / 52 * Math.PI * 2 - Math.PI / 2;
-      const x = center + radius * Math.cos(angle);
-      const y = center + radius * Math.sin(angle);
-      return { x, y };
-    });
-  }, []);
+    if (!hydrated || !liveState || !activeSlot) return;
+    writeSlot(window.localStorage, activeSlot, liveState);
+  }, [liveState, hydrated, activeSlot]);
 
-  const finalLanes = useMemo(() => {
-    const center = 50;
-    const lanes: Record<PlayerColor, { x: number; y: number }[]> = {
-      red: [],
-      blue: [],
-      yellow: [],
-      green: [],
-    };
-    (Object.keys(START_INDICES) as PlayerColor[]).forEach((color) => {
-      const start = START_INDICES[color];
-      const startPoint = ringPoints[start];
-      const dx = center - startPoint.x;
-      const dy = center - startPoint.y;
-      for (let step = 0; step < 6; step += 1) {
-        const factor = (step + 1) / 7;
-        lanes[color].push({
-          x: startPoint.x + dx * factor,
-          y: startPoint.y + dy * factor,
-        });
+  // A win played out here counts toward the seated profiles' lifetime stats.
+  // Stats are a bonus, so a browser without IndexedDB just doesn't keep them.
+  const lastLive = useRef(liveState);
+  useEffect(() => {
+    const prev = lastLive.current;
+    lastLive.current = liveState;
+    if (!prev || !liveState || prev.id !== liveState.id || prev.winner) return;
+    const record = recordGame(liveState);
+    if (record) saveGame(record).catch(() => {});
+  }, [liveState]);
+
+  // Bots take their turn after the same pause the dice animation uses.
+  useEffect(() => {
+    if (!liveState || liveState.winner || diceRolling || animating || setupOpen || replay) return;
+    const level = findPlayer(liveState.players, liveState.currentPlayer).bot;
+    if (!level) return;
+    // With a physical die someone at the table types the bot's roll in.
+    if (!liveState.dice && liveState.diceMode === "manual") return;
+    const timer = window.setTimeout(() => {
+      if (!liveState.dice) {
+        rollDice(liveState, seededDice());
+        return;
       }
-    });
-    return lanes;
-  }, [ringPoints]);
-
-  const homePositions = useMemo(() => {
-    const positions: Record<PlayerColor, { x: number; y: number }[]> = {
-      red: [
-        { x: 16, y: 16 },
-        { x: 25, y: 16 },
-        { x: 16, y: 25 },
-        { x: 25, y: 25 },
-      ],
-      blue: [
-        { x: 84, y: 16 },
-        { x: 75, y: 16 },
-        { x: 84, y: 25 },
-        { x: 75, y: 25 },
-      ],
-      yellow: [
-        { x: 84, y: 84 },
-        { x: 75, y: 84 },
-        { x: 84, y: 75 },
-        { x: 75, y: 75 },
-      ],
-      green: [
-        { x: 16, y: 84 },
-        { x: 25, y: 84 },
-        { x: 16, y: 75 },
-        { x: 25, y: 75 },
-      ],
-    };
-    return positions;
-  }, []);
+      // Seeded by the position, so replaying the seed replays the bots' picks too.
+      const random = seededRandom(`${liveState.seed}-${liveState.log.length}`);
+      const tokenId = chooseMove(liveState, level, random);
+      if (tokenId) dispatch(move(tokenId));
+    }, ROLL_ANIMATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [liveState, diceRolling, animating, setupOpen, replay, rollDice, dispatch]);
+
+  useEffect(() => {
+    if (!replay?.playing) return;
+    const timer = window.setTimeout(() => {
+      setReplay((current) => {
+        if (!current) return current;
+        const index = current.index + 1;
+        return index >= current.frames.length - 1
+          ? { ...current, index: current.frames.length - 1, playing: false }
+          : { ...current, index };
+      });
+    }, ROLL_ANIMATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [replay]);
+
+  if (loadError) {
+    return (
+      <SaveErrorScreen
+        error={loadError.error}
+        raw={loadError.raw}
+        onReset={() => {
+          setLoadError(null);
+          setState(initialState());
+          setHydrated(true);
+          setSavesOpen(false);
+        }}
+      />
+    );
+  }
 
   if (!state) {
     return (
@@ -283,281 +224,143 @@ export default function Home() {
 
   const currentPlayer = findPlayer(state.players, state.currentPlayer);
 
-  const handleRoll = () => {
-    if (state.winner || diceRolling) return;
-    const roll = randomDice();
-    setDiceRolling(true);
-    setLastRoll(roll);
-    const { moves, reason } = computeValidMoves(state, roll);
-    setState((prev) =>
-      prev
-        ? {
-            ...prev,
-            dice: roll,
-            message: reason ?? `${currentPlayer.label} rolled a ${roll}`,
-          }
-        : prev
-    );
-    setAvailableMoves(moves);
-
-    if (!moves.length) {
-      setTimeout(() => {
-        setState((prev) => {
-          if (!prev) return prev;
-          const next =
-            roll === 6 ? prev.currentPlayer : nextPlayerColor(prev.currentPlayer, prev.players);
-          return { ...prev, currentPlayer: next, dice: null };
-        });
-      }, 350);
-    }
+  const { moves: availableMoves, blocked: blockedMoves } = state.dice
+    ? computeValidMoves(state, state.dice)
+    : { moves: [], blocked: [] };
 
-    setTimeout(() => setDiceRolling(false), 650);
+  const botTurn = !!currentPlayer.bot;
+  const locked = botTurn || !!replay || animating;
+  const manualRolls = state.diceMode === "manual";
+  const rollLocked = manualRolls ? !!replay || animating : locked;
+  const canRoll = !state.dice && !state.winner && !diceRolling && !rollLocked;
+
+  const handleRoll = (source: DiceSource = seededDice()) => {
+    if (!canRoll) return;
+    rollDice(state, source);
   };
 
-  const applyMove = (move: MoveOption) => {
-    if (state.winner) return;
-    const dice = state.dice;
-    if (!dice) return;
+  const applyMove = (option: MoveOption) => {
+    if (locked) return;
+    dispatch(move(option.tokenId));
+  };
+
+  // Undo past bot turns too, otherwise the bot would just replay its move.
+  const handleUndo = () => {
     setState((prev) => {
       if (!prev) return prev;
-      const players = prev.players.map((p) => {
-        if (p.color !== prev.currentPlayer) return p;
-        return {
-          ...p,
-          tokens: p.tokens.map((t) =>
-            t.id === move.tokenId ? { ...t, steps: move.nextSteps } : t
-          ),
-        };
-      });
-
-      const mover = findPlayer(players, prev.currentPlayer);
-      const movedToken = mover.tokens.find((t) => t.id === move.tokenId)!;
-      const posInfo = tokenPhase(movedToken.steps, mover.startIndex);
-      let updatedPlayers = players;
-      if (posInfo.phase === "track" && move.willCapture.length) {
-        updatedPlayers = players.map((p) => ({
-          ...p,
-          tokens: p.tokens.map((t) =>
-            move.willCapture.includes(t.id) ? { ...t, steps: null } : t
-          ),
-        }));
+      let next = gameReducer(prev, undo());
+      while (next.log.length && findPlayer(next.players, next.currentPlayer).bot) {
+        next = gameReducer(next, undo());
       }
-
-      const winnerPlayer = hasWinner(updatedPlayers);
-      const stayedOnTurn = dice === 6 && !winnerPlayer;
-      const nextColor = stayedOnTurn
-        ? prev.currentPlayer
-        : nextPlayerColor(prev.currentPlayer, prev.players);
-      const nextLabel = findPlayer(updatedPlayers, nextColor).label;
-
-      return {
-        ...prev,
-        players: updatedPlayers,
-        currentPlayer: winnerPlayer ? prev.currentPlayer : nextColor,
-        dice: null,
-        winner: winnerPlayer?.color ?? null,
-        message: winnerPlayer
-          ? `${winnerPlayer.label} wins!`
-          : stayedOnTurn
-          ? `${currentPlayer.label} rolled a 6 - go again`
-          : `${nextLabel} to roll`,
-      };
+      return next;
     });
-    setAvailableMoves([]);
   };
 
-  const resetGame = () => {
-    const fresh = initialState();
-    setState(fresh);
-    setAvailableMoves([]);
-    setLastRoll(null);
+  const startReplay = () => {
+    const frames = replayFrames(state);
+    setReplay({ frames, index: 0, playing: true });
   };
 
-  const summary = (player: Player) => {
-    const home = player.tokens.filter((t) => t.steps === null).length;
-    const finished = player.tokens.filter(
-      (t) => clampSteps(t.steps) === FINAL_STEPS_END
-    ).length;
-    return { home, finished };
+  // Frame i is the board before log entry i was played.
+  const replayFrom = (logIndex: number) => {
+    setReplay({ frames: replayFrames(state), index: logIndex, playing: false });
   };
 
-  const applyMoveFor = (tokenId: string) => {
-    const move = availableMoves.find((m) => m.tokenId === tokenId);
-    if (!move) return;
-    applyMove(move);
-  };
+  const hintAsked = hintFor === state;
+  const winRateOf = (tokenId: string) =>
+    hints?.find((h) => h.option.tokenId === tokenId)?.winRate;
 
-  const tileForToken = (
-    token: Token,
-    player: Player,
-    idx: number,
-    clickable: boolean,
-    offset = { x: 0, y: 0 },
-    stackSize = 1,
-    stackOrder = 0,
-    isCurrentTurn = false
-  ) => {
-    const info = tokenPhase(token.steps, player.startIndex);
-    const label = token.id.split("-")[1];
-    const isReady =
-      clickable &&
-      availableMoves.some((m) => m.tokenId === token.id && m.nextSteps === clampSteps(m.nextSteps));
-    const pulse = isReady ? "animate-token-wobble" : "";
-    const glow = isCurrentTurn ? "shadow-[0_0_0_6px_rgba(255,255,255,0.18)] ring-2 ring-white/60" : "";
-    const base =
-      "h-9 w-9 rounded-full border-2 border-white/80 shadow-md flex items-center justify-center text-xs font-bold";
-    const style = { backgroundColor: COLORS[player.color], color: "#0b1224" };
-    const content = (
-      <div className={`${base} ${pulse} ${glow}`} style={style} key={token.id}>
-        {label}
-      </div>
+  const seekReplay = (index: number) => {
+    setReplay((current) =>
+      current
+        ? {
+            ...current,
+            index: Math.min(Math.max(index, 0), current.frames.length - 1),
+            playing: false,
+          }
+        : current
     );
-    const hitboxPadding = stackSize > 1 ? 14 : 10;
-    const wrapperClass =
-      "absolute select-none focus:outline-none active:scale-[0.97] transition-transform touch-manipulation";
-    const buildStyle = (pos: { x: number; y: number }) => {
-      const turnBonus = isCurrentTurn ? 100 : 0;
-      return {
-        left: `${pos.x}%`,
-        top: `${pos.y}%`,
-        transform: `translate(-50%, -50%) translate(${offset.x}px, ${offset.y}px)`,
-        padding: `${hitboxPadding}px`,
-        zIndex: 50 + stackSize - stackOrder + turnBonus,
-        transition: "left 0.45s ease, top 0.45s ease, transform 0.45s ease",
-      };
-    };
-
-    if (info.phase === "home") {
-      const pos = homePositions[player.color][idx % 4];
-      return (
-        <button
-          key={token.id}
-          onClick={() => applyMoveFor(token.id)}
-          disabled={!isReady}
-          className={wrapperClass}
-          style={buildStyle(pos)}
-        >
-          {content}
-        </button>
-      );
+  };
+
+  const storage = window.localStorage;
+
+  const refreshSlots = () => setSlots(listSlots(storage));
+
+  const openSlot = (id: string) => {
+    setActiveSlot(storage, id);
+    setActiveSlotId(id);
+    setReplay(null);
+    setLastRoll(null);
+    try {
+      setState(loadSlot(storage, id));
+    } catch (error) {
+      if (!(error instanceof SaveError)) throw error;
+      setLoadError({ error, raw: readSlotRaw(storage, id) ?? "" });
     }
+  };
 
-    if (info.phase === "track") {
-      const pt = ringPoints[info.trackIndex];
-      return (
-        <button
-          key={token.id}
-          onClick={() => applyMoveFor(token.id)}
-          disabled={!isReady}
-          className={wrapperClass}
-          style={buildStyle(pt)}
-        >
-          {content}
-        </button>
-      );
+  const startGame = (setup: GameSetup, name: string) => {
+    const fresh = initialState(setup);
+    const meta = createSlot(storage, name, fresh);
+    setActiveSlot(storage, meta.id);
+    setActiveSlotId(meta.id);
+    setState(fresh);
+    setLastRoll(null);
+    setSetupOpen(false);
+    refreshSlots();
+  };
+
+  const deleteGame = (id: string) => {
+    deleteSlot(storage, id);
+    const remaining = listSlots(storage);
+    setSlots(remaining);
+    if (id !== activeSlot) return;
+    const next = remaining.find((slot) => !slot.error);
+    if (next) {
+      openSlot(next.id);
+    } else {
+      // A fresh seed, or the replacement would replay the deleted game's dice.
+      startGame({ ...setupOf(state), seed: undefined }, FIRST_SLOT_NAME);
     }
+  };
 
-    if (info.phase === "final") {
-      const lane = finalLanes[player.color][info.finalIndex];
-      return (
-        <button
-          key={token.id}
-          onClick={() => applyMoveFor(token.id)}
-          disabled={!isReady}
-          className={wrapperClass}
-          style={buildStyle(lane)}
-        >
-          {content}
-        </button>
+  const exportGame = (id: string) => {
+    const raw = readSlotRaw(storage, id);
+    const meta = slots.find((slot) => slot.id === id);
+    if (raw) downloadJson(raw, exportFileName(meta?.name ?? "game"));
+  };
+
+  const importGame = async (file: File) => {
+    setImportError(null);
+    try {
+      const meta = importSlot(storage, file.name.replace(/\.json$/i, ""), await file.text());
+      openSlot(meta.id);
+      refreshSlots();
+    } catch (error) {
+      if (!(error instanceof SaveError)) throw error;
+      setImportError(
+        [`${file.name}: ${error.message}`, ...error.issues.slice(0, 3)].join(" - ")
       );
     }
-
-    return (
-      <div
-        key={token.id}
-        className={wrapperClass}
-        style={buildStyle({ x: 50, y: 50 })}
-      >
-        {content}
-      </div>
-    );
   };
 
-  const renderTokens = (() => {
-    const stackOffsets = (count: number) => {
-      if (count === 2) return [{ x: -12, y: -10 }, { x: 12, y: 10 }];
-      if (count === 3)
-        return [
-          { x: -14, y: -8 },
-          { x: 14, y: -8 },
-          { x: 0, y: 14 },
-        ];
-      if (count >= 4)
-        return [
-          { x: -14, y: -10 },
-          { x: 14, y: -10 },
-          { x: -14, y: 10 },
-          { x: 14, y: 10 },
-        ].concat(Array.from({ length: count - 4 }, () => ({ x: 0, y: 0 })));
-      return [{ x: 0, y: 0 }];
-    };
-
-    const placements = state.players.flatMap((player) =>
-      player.tokens.map((token, idx) => {
-        const info = tokenPhase(token.steps, player.startIndex);
-        const clickable =
-          !!state.dice &&
-          availableMoves.some((m) => m.tokenId === token.id) &&
-          !diceRolling;
-
-        if (info.phase === "home") {
-          const pos = homePositions[player.color][idx % 4];
-          return { token, player, idx, clickable, pos, key: `home-${player.color}-${idx % 4}` };
-        }
-        if (info.phase === "track") {
-          const pt = ringPoints[info.trackIndex];
-          return { token, player, idx, clickable, pos: pt, key: `track-${info.trackIndex}` };
-        }
-        if (info.phase === "final") {
-          const lane = finalLanes[player.color][info.finalIndex];
-          return { token, player, idx, clickable, pos: lane, key: `final-${player.color}-${info.finalIndex}` };
-        }
-        return { token, player, idx, clickable, pos: { x: 50, y: 50 }, key: `done-${player.color}` };
-      })
-    );
+  const summary = (player: Player) => {
+    const home = player.tokens.filter((t) => t.steps === null).length;
+    const finished = player.tokens.filter(
+      (t) => clampSteps(t.steps) === FINAL_STEPS_END
+    ).length;
+    return { home, finished };
+  };
 
-    const grouped = placements.reduce((map, item) => {
-      const list = map.get(item.key) ?? [];
-      list.push(item);
-      map.set(item.key, list);
-      return map;
-    }, new Map<string, typeof placements>());
-
-    return Array.from(grouped.values()).flatMap((group) => {
-      const offsets = stackOffsets(group.length);
-      const sortedGroup = [...group].sort((a, b) => {
-        const aTurn = a.player.color === state.currentPlayer ? 1 : 0;
-        const bTurn = b.player.color === state.currentPlayer ? 1 : 0;
-        if (aTurn !== bTurn) return bTurn - aTurn; // current turn tokens render on top
-        return 0;
-      });
-      return sortedGroup.map((item, order) =>
-        tileForToken(
-          item.token,
-          item.player,
-          item.idx,
-          item.clickable,
-          offsets[order] ?? { x: 0, y: 0 },
-          group.length,
-          order,
-          item.player.color === state.currentPlayer
-        )
-      );
-    });
-  })();
+  const applyMoveFor = (tokenId: string) => {
+    const option = availableMoves.find((m) => m.tokenId === tokenId);
+    if (!option) return;
+    applyMove(option);
+  };
 
   return (
     <main className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 text-slate-50">
+      <LiveAnnouncer state={state} />
       <div className="mx-auto max-w-6xl px-4 py-8 sm:py-12">
         <header className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
           <div>
@@ -568,117 +371,301 @@ export default function Home() {
               Ludo Lounge
             </h1>
             <p className="text-slate-400">
-              Mobile-first board, smooth turns, and on-device saves.
+              Mobile-first board, smooth turns, and on-device saves.{" "}
+              <Link href="/online" className="underline">
+                Play over the network
+              </Link>{" "}
+              -{" "}
+              <Link href="/stats" className="underline">
+                Players and stats
+              </Link>
             </p>
           </div>
           <div className="flex items-center gap-3 rounded-2xl bg-white/5 px-4 py-3 backdrop-blur">
             <div
               className="h-10 w-10 rounded-xl border border-white/15 text-lg font-black flex items-center justify-center shadow-lg"
-              style={{ backgroundColor: COLORS[state.currentPlayer], color: "#0b1224" }}
+              style={{ backgroundColor: theme.colors[state.currentPlayer], color: "#0b1224" }}
             >
               {state.currentPlayer[0].toUpperCase()}
             </div>
             <div>
               <p className="text-xs text-slate-400">Current player</p>
-              <p className="text-sm font-semibold">{currentPlayer.label}</p>
+              <p className="text-sm font-semibold">
+                {currentPlayer.label}
+                {botTurn && <span className="ml-1 text-xs text-slate-400">(bot thinking)</span>}
+              </p>
             </div>
           </div>
         </header>
 
         <div className="mt-8 grid gap-6 lg:grid-cols-[minmax(0,1.2fr),minmax(280px,0.8fr)]">
           <section className="rounded-3xl border border-white/10 bg-white/5 p-4 shadow-2xl backdrop-blur">
-            <div className="relative mx-auto aspect-square max-w-[720px] overflow-hidden rounded-2xl border border-white/10 bg-slate-950/80">
-              <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_rgba(255,255,255,0.04)_0%,_transparent_45%)]" />
-              <div className="absolute inset-6 rounded-2xl border border-white/5" />
-              <div className="absolute inset-0" aria-label="Board">
-                {renderTokens}
-              </div>
-              {ringPoints.map((pt, idx) => (
-                <div
-                  key={idx}
-                  className={`absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border border-white/20 ${
-                    SAFE_CELLS.has(idx) ? "bg-white/30" : "bg-white/10"
-                  }`}
-                  style={{ left: `${pt.x}%`, top: `${pt.y}%` }}
-                />
-              ))}
-              {(Object.keys(finalLanes) as PlayerColor[]).map((color) =>
-                finalLanes[color].map((pt, idx) => (
-                  <div
-                    key={`${color}-lane-${idx}`}
-                    className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border border-white/30"
-                    style={{
-                      left: `${pt.x}%`,
-                      top: `${pt.y}%`,
-                      backgroundColor: `${COLORS[color]}30`,
-                    }}
-                  />
-                ))
-              )}
-              <div className="absolute left-1/2 top-1/2 h-16 w-16 -translate-x-1/2 -translate-y-1/2 rounded-2xl border-2 border-white/40 bg-white/10" />
-            </div>
+            <Board
+              state={state}
+              moves={availableMoves}
+              interactive={!diceRolling && !locked}
+              colors={theme.colors}
+              skin={theme.tokens}
+              surface={theme.surface}
+              theme={boardTheme}
+              animation={frame}
+              animationStep={frameIndex}
+              reducedMotion={reducedMotion}
+              highlight={hints?.[0]?.option.tokenId}
+              onMove={applyMoveFor}
+            />
             <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-400">
               <span className="rounded-full bg-white/5 px-3 py-1">Tap a glowing piece after you roll</span>
               <span className="rounded-full bg-white/5 px-3 py-1">6 keeps your turn</span>
-              <span className="rounded-full bg-white/5 px-3 py-1">Landing on rivals bumps them home (not on safe spots)</span>
+              <span className="rounded-full bg-white/5 px-3 py-1">
+                Landing on rivals bumps them home{state.rules.safeStars ? " (not on safe spots)" : ""}
+              </span>
+              <SoundControls />
+              <AppearanceControls />
+              <select
+                value={motion}
+                onChange={(e) => setMotion(e.target.value as typeof motion)}
+                aria-label="Animations"
+                className="ml-auto rounded-full border border-white/15 bg-slate-900 px-3 py-1 text-white/80"
+              >
+                <option value="system">Animations: match system</option>
+                <option value="full">Animations: on</option>
+                <option value="reduce">Animations: reduced</option>
+              </select>
+              <button
+                onClick={() => setBoardTheme(boardTheme === "cross" ? "circle" : "cross")}
+                className="rounded-full border border-white/15 px-3 py-1 text-white/80 transition hover:bg-white/5"
+              >
+                {boardTheme === "cross" ? "Circle board" : "Classic board"}
+              </button>
             </div>
           </section>
 
           <aside className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 p-4 shadow-2xl backdrop-blur">
+            {savesOpen && (
+              <div className="rounded-2xl border border-white/10 bg-slate-900/80 p-4">
+                <p className="mb-3 font-semibold text-white">Saved games</p>
+                <SavedGamesPanel
+                  slots={slots}
+                  activeId={activeSlot}
+                  importError={importError}
+                  onResume={openSlot}
+                  onRename={(id, name) => {
+                    renameSlot(storage, id, name);
+                    refreshSlots();
+                  }}
+                  onDuplicate={(id) => {
+                    duplicateSlot(storage, id);
+                    refreshSlots();
+                  }}
+                  onDelete={deleteGame}
+                  onExport={exportGame}
+                  onImport={importGame}
+                />
+              </div>
+            )}
+            {state.winner && !replay && !animating && !setupOpen && (
+              <GameResults
+                state={state}
+                colors={theme.colors}
+                onNewGame={() => setSetupOpen(true)}
+                onReplay={state.base ? startReplay : undefined}
+              />
+            )}
+            {state.winner && state.base && !replay && !animating && !setupOpen && (
+              <MoveReview state={state} colors={theme.colors} onSelect={replayFrom} />
+            )}
+            {setupOpen && (
+              <div className="rounded-2xl border border-white/10 bg-slate-900/80 p-4">
+                <p className="mb-3 font-semibold text-white">New game</p>
+                <NewGameSetup
+                  initial={setupOf(state)}
+                  colors={theme.colors}
+                  onStart={startGame}
+                  onCancel={() => setSetupOpen(false)}
+                />
+              </div>
+            )}
             <div className="rounded-2xl border border-white/10 bg-slate-900/80 p-4">
               <div className="flex items-center justify-between">
               <div>
                 <p className="text-xs text-slate-400">Dice</p>
                 <div
+                  role="img"
+                  aria-label={state.dice ? `Dice showing ${state.dice}` : "Dice not rolled"}
                   className={`flex h-12 w-12 items-center justify-center rounded-lg border border-white/15 bg-white/5 text-2xl font-black tracking-tight ${
-                    diceRolling ? "dice-rolling" : ""
+                    diceRolling && !reducedMotion ? "dice-rolling" : ""
                   }`}
                 >
                   {diceRolling ? "" : state.dice ?? lastRoll ?? "-"}
                 </div>
               </div>
                 <div className="flex gap-2">
+                  {!manualRolls && (
+                    <button
+                      onClick={() => handleRoll()}
+                      disabled={!canRoll}
+                      data-roll-button
+                      aria-keyshortcuts="R"
+                      className="rounded-xl bg-white text-slate-900 px-4 py-2 text-sm font-semibold shadow-lg shadow-blue-500/30 transition hover:scale-[1.02] disabled:opacity-50"
+                    >
+                      Roll
+                    </button>
+                  )}
                   <button
-                    onClick={handleRoll}
-                    disabled={!!state.dice || !!state.winner || diceRolling}
-                    className="rounded-xl bg-white text-slate-900 px-4 py-2 text-sm font-semibold shadow-lg shadow-blue-500/30 transition hover:scale-[1.02] disabled:opacity-50"
+                    onClick={() => setSetupOpen(true)}
+                    disabled={!!replay}
+                    className="rounded-xl border border-white/15 px-4 py-2 text-sm font-semibold text-white/90 transition hover:bg-white/5 disabled:opacity-50"
                   >
-                    Roll
+                    New game
                   </button>
                   <button
-                    onClick={resetGame}
-                    className="rounded-xl border border-white/15 px-4 py-2 text-sm font-semibold text-white/90 transition hover:bg-white/5"
+                    onClick={() => {
+                      if (!savesOpen) refreshSlots();
+                      setSavesOpen((open) => !open);
+                    }}
+                    disabled={!!replay}
+                    className="rounded-xl border border-white/15 px-4 py-2 text-sm font-semibold text-white/90 transition hover:bg-white/5 disabled:opacity-50"
                   >
-                    Reset
+                    Saves
                   </button>
                 </div>
               </div>
+              {manualRolls && (
+                <div className="mt-3">
+                  <p className="mb-1 text-xs text-slate-400">Enter the physical die roll</p>
+                  <div className="flex gap-1">
+                    {[1, 2, 3, 4, 5, 6].map((value) => (
+                      <button
+                        key={value}
+                        onClick={() => handleRoll(manualDice(value))}
+                        disabled={!canRoll}
+                        className="h-9 w-9 rounded-lg bg-white text-sm font-bold text-slate-900 transition hover:scale-[1.04] disabled:opacity-40"
+                      >
+                        {value}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
               <p className="mt-2 text-sm text-slate-300">{state.message}</p>
+              <p className="mt-1 text-[11px] text-slate-500">Seed: {state.seed}</p>
+              {replay ? (
+                <div className="mt-3 rounded-xl border border-white/10 bg-white/5 p-3">
+                  <ReplayControls
+                    index={replay.index}
+                    total={replay.frames.length - 1}
+                    playing={replay.playing}
+                    onTogglePlay={() =>
+                      setReplay((current) =>
+                        current
+                          ? {
+                              ...current,
+                              playing: !current.playing,
+                              index:
+                                current.index >= current.frames.length - 1 ? 0 : current.index,
+                            }
+                          : current
+                      )
+                    }
+                    onSeek={seekReplay}
+                    onExit={() => setReplay(null)}
+                  />
+                </div>
+              ) : (
+                <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                  <button
+                    onClick={handleUndo}
+                    disabled={!state.log.length || !state.base || diceRolling}
+                    className="rounded-lg border border-white/15 px-3 py-1 font-semibold text-white/90 transition hover:bg-white/5 disabled:opacity-40"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    onClick={() => dispatch(redo())}
+                    disabled={!state.redoLog.length || diceRolling}
+                    className="rounded-lg border border-white/15 px-3 py-1 font-semibold text-white/90 transition hover:bg-white/5 disabled:opacity-40"
+                  >
+                    Redo
+                  </button>
+                  <button
+                    onClick={startReplay}
+                    disabled={!state.log.length || !state.base}
+                    className="rounded-lg border border-white/15 px-3 py-1 font-semibold text-white/90 transition hover:bg-white/5 disabled:opacity-40"
+                  >
+                    Replay
+                  </button>
+                </div>
+              )}
               {availableMoves.length > 0 && (
                 <div className="mt-3 rounded-xl border border-white/10 bg-white/5 p-3 text-xs text-slate-200">
-                  <p className="mb-2 font-semibold">Choose a piece to move:</p>
+                  <div className="mb-2 flex items-center justify-between gap-2">
+                    <p className="font-semibold">Choose a piece to move:</p>
+                    {availableMoves.length > 1 && !locked && (
+                      <button
+                        onClick={() => setHintFor(state)}
+                        disabled={hintAsked}
+                        className="rounded-lg border border-white/15 px-2 py-1 font-semibold text-white/90 transition hover:bg-white/5 disabled:opacity-60"
+                      >
+                        {!hintAsked
+                          ? "Hint"
+                          : hints
+                            ? `Best: ${tokenName(state.players, hints[0].option.tokenId)}`
+                            : "Thinking..."}
+                      </button>
+                    )}
+                  </div>
                   <div className="space-y-2">
-                    {availableMoves.map((move) => (
+                    {availableMoves.map((option) => (
                       <button
-                        key={move.tokenId}
-                        onClick={() => applyMove(move)}
-                        className="flex w-full items-center justify-between rounded-lg bg-white/5 px-3 py-2 text-left transition hover:bg-white/10"
+                        key={option.tokenId}
+                        onClick={() => applyMove(option)}
+                        disabled={locked}
+                        aria-label={describeToken(state, option.tokenId, option)}
+                        className="flex w-full items-center justify-between rounded-lg bg-white/5 px-3 py-2 text-left transition hover:bg-white/10 disabled:opacity-60"
                       >
                         <span>
-                          {move.tokenId} {"->"} step {move.nextSteps}
+                          {tokenName(state.players, option.tokenId)}: {describeMove(state, option)}
                         </span>
-                        {move.willCapture.length > 0 && (
+                        {option.willCapture.length > 0 && (
                           <span className="rounded-full bg-white/10 px-2 py-1 text-[10px] uppercase tracking-wide text-white/90">
                             Capture
                           </span>
                         )}
+                        {winRateOf(option.tokenId) !== undefined && (
+                          <span className="rounded-full bg-amber-300/15 px-2 py-1 text-[10px] text-amber-200">
+                            {Math.round(winRateOf(option.tokenId)! * 100)}% to win
+                          </span>
+                        )}
+                        {movePreview(state, option).threats.length > 0 && (
+                          <span className="rounded-full bg-amber-300/15 px-2 py-1 text-[10px] uppercase tracking-wide text-amber-200">
+                            At risk
+                          </span>
+                        )}
                       </button>
                     ))}
+                    {blockedMoves.map((option) => (
+                      <div
+                        key={option.tokenId}
+                        className="flex w-full items-center justify-between rounded-lg bg-white/[0.02] px-3 py-2 text-slate-500"
+                      >
+                        <span>{tokenName(state.players, option.tokenId)}</span>
+                        <span className="text-[10px]">{option.blocked?.reason}</span>
+                      </div>
+                    ))}
                   </div>
                 </div>
               )}
             </div>
 
+            <ChatPanel
+              state={state}
+              lines={chat}
+              colors={theme.colors}
+              speakers={state.players.filter((p) => !p.bot).map((p) => p.color)}
+              onPost={postChat}
+            />
+
             <div className="grid grid-cols-2 gap-3">
               {state.players.map((player) => {
                 const stats = summary(player);
@@ -694,9 +681,19 @@ export default function Home() {
                     <div className="flex items-center gap-2">
                       <span
                         className="h-3 w-3 rounded-full"
-                        style={{ backgroundColor: COLORS[player.color] }}
+                        style={{ backgroundColor: theme.colors[player.color] }}
                       />
                       <p className="text-sm font-semibold">{player.label}</p>
+                      {state.finishOrder.includes(player.color) && (
+                        <span className="rounded-full bg-white/10 px-2 py-0.5 text-[10px] uppercase tracking-wide text-slate-300">
+                          {ordinal(state.finishOrder.indexOf(player.color) + 1)}
+                        </span>
+                      )}
+                      {player.bot && (
+                        <span className="rounded-full bg-white/10 px-2 py-0.5 text-[10px] uppercase tracking-wide text-slate-300">
+                          Bot · {player.bot}
+                        </span>
+                      )}
                     </div>
                     <div className="mt-2 flex items-center justify-between text-xs text-slate-300">
                       <span>Home: {stats.home}</span>
@@ -707,14 +704,36 @@ export default function Home() {
               })}
             </div>
 
+            {state.rules.teams && <TeamProgress state={state} colors={theme.colors} />}
+
+            <div className="rounded-2xl border border-white/10 bg-slate-900/80 p-4 text-sm text-slate-300">
+              <p className="mb-2 font-semibold text-white">History</p>
+              <HistoryList
+                entries={replay ? replay.frames[replay.frames.length - 1].log : state.log}
+                players={state.players}
+                colors={theme.colors}
+                played={replay?.index}
+                onSelect={replay ? seekReplay : undefined}
+              />
+            </div>
+
             <div className="rounded-2xl border border-white/10 bg-slate-900/80 p-4 text-sm text-slate-300">
               <p className="font-semibold text-white">Quick tips</p>
               <ul className="mt-2 space-y-1 text-slate-400">
-                <li>- Roll a 6 to launch from home.</li>
+                <li>
+                  - Roll a {state.rules.entryRolls.join(" or ")} to launch from home.
+                </li>
                 <li>- Tap glowing pieces to move after rolling.</li>
                 <li>- 6 gives another roll; capture bumps rivals home.</li>
                 <li>- Your game auto-saves to this device.</li>
+                <li>- Keyboard: R rolls, Tab or arrow keys pick a piece, Enter moves it.</li>
               </ul>
+              <Link
+                href="/tutorial"
+                className="mt-3 inline-block rounded-lg border border-white/15 px-3 py-1 text-xs font-semibold text-white/90 transition hover:bg-white/5"
+              >
+                New to Ludo? Take the tutorial
+              </Link>
             </div>
           </aside>
         </div>
@@ -0,0 +1,231 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { useTheme } from "../components/preferences";
+import { deleteProfile, saveProfile, useStatsData } from "../components/statsStore";
+import {
+  type GameRecord,
+  type PlayerColor,
+  type Profile,
+  SEAT_ORDER,
+  createProfile,
+  defaultLabel,
+  profileStats,
+} from "@/lib/ludo";
+
+const percent = (wins: number, played: number) =>
+  played ? `${Math.round((wins / played) * 100)}%` : "-";
+
+function ProfileCard({
+  profile,
+  profiles,
+  games,
+  onStore,
+}: {
+  profile: Profile;
+  profiles: Profile[];
+  games: GameRecord[];
+  onStore: (change: Promise<void>) => void;
+}) {
+  const [name, setName] = useState(profile.name);
+  const { colors } = useTheme();
+  const stats = profileStats(games, profile.id);
+  const nameOf = (id: string) => profiles.find((p) => p.id === id)?.name ?? "Deleted profile";
+  const rivals = Object.entries(stats.headToHead).sort((a, b) => b[1].played - a[1].played);
+
+  return (
+    <section className="rounded-2xl border border-white/10 bg-slate-900/80 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className="h-4 w-4 shrink-0 rounded-full"
+          style={{ backgroundColor: colors[profile.color] }}
+        />
+        <input
+          type="text"
+          value={name}
+          maxLength={20}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={() => name.trim() && onStore(saveProfile({ ...profile, name: name.trim() }))}
+          aria-label="Profile name"
+          className="min-w-0 flex-1 rounded-lg border border-white/10 bg-white/5 px-2 py-1 font-semibold"
+        />
+        <select
+          value={profile.color}
+          onChange={(e) =>
+            onStore(saveProfile({ ...profile, color: e.target.value as PlayerColor }))
+          }
+          aria-label={`${profile.name} preferred colour`}
+          className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-xs"
+        >
+          {SEAT_ORDER.map((color) => (
+            <option key={color} value={color}>
+              Prefers {defaultLabel(color)}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => {
+            if (window.confirm(`Delete ${profile.name}? Their games stay in others' records.`)) {
+              onStore(deleteProfile(profile.id));
+            }
+          }}
+          className="rounded-lg border border-white/15 px-2 py-1 text-xs text-white/80 hover:bg-white/5"
+        >
+          Delete
+        </button>
+      </div>
+
+      <dl className="mt-4 grid grid-cols-2 gap-3 text-sm sm:grid-cols-4">
+        {[
+          ["Games", stats.played],
+          ["Wins", `${stats.wins} (${percent(stats.wins, stats.played)})`],
+          ["Captures made", stats.capturesMade],
+          ["Captures suffered", stats.capturesSuffered],
+          ["Sixes rolled", stats.sixes],
+          [
+            "Average game",
+            stats.averageTurns === null ? "-" : `${Math.round(stats.averageTurns)} turns`,
+          ],
+        ].map(([label, value]) => (
+          <div key={label} className="rounded-xl bg-white/5 px-3 py-2">
+            <dt className="text-xs uppercase tracking-wide text-slate-400">{label}</dt>
+            <dd className="text-lg font-semibold text-white">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <p className="mt-4 text-xs uppercase tracking-wide text-slate-400">Win rate by colour</p>
+      <div className="mt-2 grid grid-cols-4 gap-2 text-xs">
+        {SEAT_ORDER.map((color) => {
+          const { played, wins } = stats.byColor[color];
+          return (
+            <div key={color} className="flex items-center gap-2 rounded-lg bg-white/5 px-2 py-1">
+              <span className="h-3 w-3 rounded-full" style={{ backgroundColor: colors[color] }} />
+              <span>
+                {percent(wins, played)}{" "}
+                <span className="text-slate-400">
+                  ({wins}/{played})
+                </span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="mt-4 text-xs uppercase tracking-wide text-slate-400">Head to head</p>
+      {rivals.length ? (
+        <ul className="mt-2 space-y-1 text-sm">
+          {rivals.map(([id, record]) => (
+            <li key={id} className="flex justify-between rounded-lg bg-white/5 px-3 py-1">
+              <span>vs {nameOf(id)}</span>
+              <span className="text-slate-300">
+                {record.wins} won, {record.losses} lost of {record.played}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="mt-2 text-sm text-slate-400">No games against other profiles yet.</p>
+      )}
+    </section>
+  );
+}
+
+export default function StatsPage() {
+  const data = useStatsData();
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<PlayerColor>("red");
+  const [storeError, setStoreError] = useState<string | null>(null);
+
+  // The page reloads from the store on success, so only failures need handling.
+  const store = (change: Promise<void>) => {
+    setStoreError(null);
+    return change.then(
+      () => true,
+      (error: unknown) => {
+        setStoreError(error instanceof Error ? error.message : "Stats storage is unavailable");
+        return false;
+      }
+    );
+  };
+
+  const addProfile = async () => {
+    if (!name.trim()) return;
+    if (await store(saveProfile(createProfile(name, color)))) setName("");
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 text-slate-50">
+      <div className="mx-auto max-w-3xl px-4 py-8 sm:py-12">
+        <p className="text-sm uppercase tracking-[0.2em] text-slate-400">Ludo Lounge</p>
+        <h1 className="text-3xl font-semibold text-white">Players and stats</h1>
+        <p className="text-slate-400">
+          Pick a profile for a seat when starting a game; every finished game counts toward it.{" "}
+          <Link href="/" className="underline">
+            Back to the board
+          </Link>
+        </p>
+
+        <section className="mt-6 rounded-2xl border border-white/10 bg-slate-900/80 p-4">
+          <p className="mb-3 font-semibold text-white">New profile</p>
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              value={name}
+              maxLength={20}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && addProfile()}
+              placeholder="Name"
+              aria-label="Profile name"
+              className="min-w-0 flex-1 rounded-lg border border-white/10 bg-white/5 px-2 py-1"
+            />
+            <select
+              value={color}
+              onChange={(e) => setColor(e.target.value as PlayerColor)}
+              aria-label="Preferred colour"
+              className="rounded-lg border border-white/10 bg-slate-900 px-2 py-1 text-sm"
+            >
+              {SEAT_ORDER.map((c) => (
+                <option key={c} value={c}>
+                  {defaultLabel(c)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={addProfile}
+              disabled={!name.trim()}
+              className="rounded-xl bg-white px-4 py-2 text-sm font-semibold text-slate-900 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        </section>
+
+        {storeError && (
+          <p role="alert" className="mt-6 text-rose-300">
+            Couldn&apos;t save that change: {storeError}
+          </p>
+        )}
+        {!data && <p className="mt-6 text-slate-400">Loading stats...</p>}
+        {data?.error && (
+          <p className="mt-6 text-amber-300">Stats can&apos;t be stored here: {data.error}</p>
+        )}
+        {data && !data.error && !data.profiles.length && (
+          <p className="mt-6 text-slate-400">No profiles yet. Add one to start keeping score.</p>
+        )}
+        <div className="mt-6 space-y-4">
+          {data?.profiles.map((profile) => (
+            <ProfileCard
+              key={`${profile.id}-${profile.name}`}
+              profile={profile}
+              profiles={data.profiles}
+              games={data.games}
+              onStore={store}
+            />
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
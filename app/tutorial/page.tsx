@@ -0,0 +1,177 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import Board from "../components/Board";
+import LiveAnnouncer from "../components/LiveAnnouncer";
+import { useBoardTheme, useReducedMotion, useTheme } from "../components/preferences";
+import { useMoveAnimation } from "../components/useMoveAnimation";
+import { useRollShortcut } from "../components/useRollShortcut";
+import {
+  LESSONS,
+  type TutorialProgress,
+  computeValidMoves,
+  expectedMove,
+  startLesson,
+  tutorialMove,
+  tutorialNext,
+  tutorialRoll,
+} from "@/lib/ludo";
+
+export default function TutorialPage() {
+  const [progress, setProgress] = useState<TutorialProgress>(() => startLesson(LESSONS[0]));
+  const [completed, setCompleted] = useState<string[]>([]);
+  const [boardTheme] = useBoardTheme();
+  const theme = useTheme();
+  const reducedMotion = useReducedMotion();
+  const { frame, frameIndex, busy } = useMoveAnimation(progress.state, reducedMotion);
+  useRollShortcut();
+
+  const { lesson, step, phase, state, hint } = progress;
+  const current = lesson.steps[step];
+  const expected = expectedMove(progress);
+  const moves = phase === "move" && state.dice ? computeValidMoves(state, state.dice).moves : [];
+  const lessonIndex = LESSONS.indexOf(lesson);
+  const nextLesson = LESSONS[lessonIndex + 1];
+
+  const advance = () => {
+    const next = tutorialNext(progress);
+    if (next.phase === "complete") {
+      setCompleted((done) => (done.includes(lesson.id) ? done : [...done, lesson.id]));
+    }
+    setProgress(next);
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 text-slate-50">
+      <LiveAnnouncer state={state} />
+      <div className="mx-auto max-w-6xl px-4 py-8 sm:py-12">
+        <p className="text-sm uppercase tracking-[0.2em] text-slate-400">Ludo Lounge</p>
+        <h1 className="text-3xl font-semibold text-white">Learn to play</h1>
+        <p className="text-slate-400">
+          Short lessons with set dice. Follow the prompt and tap the highlighted token.{" "}
+          <Link href="/" className="underline">
+            Back to the board
+          </Link>
+        </p>
+
+        <div className="mt-8 grid gap-6 lg:grid-cols-[minmax(0,1.2fr),minmax(280px,0.8fr)]">
+          <section className="rounded-3xl border border-white/10 bg-white/5 p-4 shadow-2xl backdrop-blur">
+            <Board
+              state={state}
+              moves={moves}
+              interactive={phase === "move" && !busy}
+              colors={theme.colors}
+              skin={theme.tokens}
+              surface={theme.surface}
+              theme={boardTheme}
+              animation={frame}
+              animationStep={frameIndex}
+              reducedMotion={reducedMotion}
+              highlight={expected?.tokenId}
+              onMove={(tokenId) => setProgress(tutorialMove(progress, tokenId))}
+            />
+          </section>
+
+          <aside className="flex flex-col gap-4 rounded-3xl border border-white/10 bg-white/5 p-4 shadow-2xl backdrop-blur">
+            <div className="rounded-2xl border border-white/10 bg-slate-900/80 p-4 text-sm">
+              <p className="text-xs uppercase tracking-wide text-slate-400">
+                Lesson {lessonIndex + 1} of {LESSONS.length} - step{" "}
+                {Math.min(step + 1, lesson.steps.length)} of {lesson.steps.length}
+              </p>
+              <p className="mt-1 text-lg font-semibold text-white">{lesson.title}</p>
+              <p className="text-slate-400">{lesson.summary}</p>
+
+              <div className="mt-4 rounded-xl bg-white/5 p-3 text-slate-200" aria-live="polite">
+                {phase === "complete" ? (
+                  <p>Lesson complete!</p>
+                ) : phase === "review" ? (
+                  <p>{current.explain}</p>
+                ) : phase === "move" ? (
+                  <p>
+                    You rolled a {state.dice}. Tap the highlighted token to move it.
+                  </p>
+                ) : (
+                  <p>{current.prompt}</p>
+                )}
+                {hint && <p className="mt-2 text-amber-300">{hint}</p>}
+              </div>
+
+              <div className="mt-3 flex flex-wrap gap-2">
+                {phase === "roll" && (
+                  <button
+                    onClick={() => setProgress(tutorialRoll(progress))}
+                    disabled={busy}
+                    data-roll-button
+                    aria-keyshortcuts="R"
+                    className="rounded-xl bg-white px-4 py-2 text-sm font-semibold text-slate-900 shadow-lg shadow-blue-500/30 transition hover:scale-[1.02] disabled:opacity-50"
+                  >
+                    Roll
+                  </button>
+                )}
+                {phase === "review" && (
+                  <button
+                    onClick={advance}
+                    disabled={busy}
+                    className="rounded-xl bg-white px-4 py-2 text-sm font-semibold text-slate-900 shadow-lg shadow-blue-500/30 transition hover:scale-[1.02] disabled:opacity-50"
+                  >
+                    {step + 1 < lesson.steps.length ? "Next step" : "Finish lesson"}
+                  </button>
+                )}
+                {phase === "complete" && nextLesson && (
+                  <button
+                    onClick={() => setProgress(startLesson(nextLesson))}
+                    className="rounded-xl bg-white px-4 py-2 text-sm font-semibold text-slate-900 shadow-lg shadow-blue-500/30 transition hover:scale-[1.02]"
+                  >
+                    Next lesson: {nextLesson.title}
+                  </button>
+                )}
+                {phase === "complete" && !nextLesson && (
+                  <Link
+                    href="/"
+                    className="rounded-xl bg-white px-4 py-2 text-sm font-semibold text-slate-900 shadow-lg shadow-blue-500/30"
+                  >
+                    Play a real game
+                  </Link>
+                )}
+                <button
+                  onClick={() => setProgress(startLesson(lesson))}
+                  className="rounded-xl border border-white/15 px-4 py-2 text-sm font-semibold text-white/90 transition hover:bg-white/5"
+                >
+                  Restart lesson
+                </button>
+              </div>
+            </div>
+
+            <nav
+              aria-label="Lessons"
+              className="rounded-2xl border border-white/10 bg-slate-900/80 p-4 text-sm"
+            >
+              <p className="mb-2 font-semibold text-white">Lessons</p>
+              <ol className="space-y-1">
+                {LESSONS.map((l, idx) => (
+                  <li key={l.id}>
+                    <button
+                      onClick={() => setProgress(startLesson(l))}
+                      aria-current={l === lesson ? "step" : undefined}
+                      className={`flex w-full items-center justify-between rounded-lg px-3 py-2 text-left transition hover:bg-white/10 ${
+                        l === lesson ? "bg-white/10 text-white" : "text-slate-300"
+                      }`}
+                    >
+                      <span>
+                        {idx + 1}. {l.title}
+                      </span>
+                      {completed.includes(l.id) && (
+                        <span className="text-xs text-emerald-300">Done</span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </nav>
+          </aside>
+        </div>
+      </div>
+    </main>
+  );
+}
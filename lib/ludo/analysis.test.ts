@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { analyzeMoves, reviewGame, rollout } from "./analysis";
+import { seededRandom } from "./dice";
+import { gameReducer, initialState, move, placeTokens, roll } from "./engine";
+import { strategyMove } from "./simulate";
+
+/** A small LCG so rollouts repeat from run to run. */
+function seeded(seed = 1) {
+  let state = seed;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+}
+
+const twoPlayer = () =>
+  initialState({
+    seats: [
+      { color: "red", label: "" },
+      { color: "blue", label: "" },
+    ],
+  });
+
+const placed = (positions: Record<string, number | null>) =>
+  placeTokens(twoPlayer(), positions);
+
+describe("rollout", () => {
+  it("plays a game out to a first place", () => {
+    const winner = rollout(placed({ "red-1": 57, "red-2": 57, "red-3": 57, "red-4": 55 }), seeded());
+    expect(["red", "blue"]).toContain(winner);
+  });
+});
+
+describe("analyzeMoves", () => {
+  it("ranks the option that wins more often first", () => {
+    // blue-1 at blue step 49 sits on track index 10, eight squares from
+    // Blue's finish; red-1 can knock it back to the yard with the 3.
+    const game = gameReducer(
+      placed({
+        "red-1": 7,
+        "red-2": 40,
+        "red-3": 57,
+        "red-4": 57,
+        "blue-1": 49,
+        "blue-2": 57,
+        "blue-3": 57,
+        "blue-4": 57,
+      }),
+      roll(3)
+    );
+    const [best, worse] = analyzeMoves(game, { rollouts: 100, random: seeded(7) });
+    expect(best.option.tokenId).toBe("red-1");
+    expect(best.winRate - worse.winRate).toBeGreaterThan(0.2);
+    expect(best.rollouts).toBe(100);
+  });
+
+  it("has nothing to rank before the roll", () => {
+    expect(analyzeMoves(twoPlayer())).toEqual([]);
+  });
+});
+
+describe("reviewGame", () => {
+  it("skips forced moves and reports progress", () => {
+    const game = [roll(6), move("red-1"), roll(3), roll(2)].reduce(gameReducer, twoPlayer());
+    const progress: number[] = [];
+    expect(reviewGame(game, { random: seeded(), onProgress: (done) => progress.push(done) })).toEqual(
+      []
+    );
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it("reviews two hundred entries of a four-player game in seconds", () => {
+    const random = seededRandom("review-cost");
+    let game = initialState({ seed: "review-cost" });
+    while (!game.winner) {
+      const tokenId = strategyMove(game, "random", random);
+      game = gameReducer(game, tokenId ? move(tokenId) : roll(Math.floor(random() * 6) + 1));
+    }
+    expect(game.log.length).toBeGreaterThan(600);
+    // With full-length rollouts this took well over a minute.
+    const started = performance.now();
+    reviewGame({ ...game, log: game.log.slice(0, 200) }, { random: seeded() });
+    expect(performance.now() - started).toBeLessThan(20_000);
+  }, 30_000);
+});
@@ -0,0 +1,166 @@
+import { chooseMove } from "./bot";
+import { seededRandom } from "./dice";
+import {
+  computeValidMoves,
+  entryAction,
+  gameReducer,
+  leaderOf,
+  logStart,
+  move,
+  roll,
+  sameSide,
+} from "./engine";
+import type { GameState, MoveOption, PlayerColor } from "./types";
+
+export const DEFAULT_ROLLOUTS = 100;
+/** Actions a hint rollout may take; enough to play nearly any game out. */
+export const DEFAULT_HORIZON = 3000;
+/**
+ * Reviewing a whole game judges hundreds of moves, so each gets fewer and
+ * much shorter rollouts: a few rounds ahead, then the leader is called.
+ * A quick screen first clears the moves that were plainly fine; only the
+ * rest get the full count.
+ */
+export const REVIEW_ROLLOUTS = 24;
+export const REVIEW_SCREEN_ROLLOUTS = 8;
+export const REVIEW_HORIZON = 60;
+/**
+ * A chosen move this much less likely to win than the best is flagged in
+ * review; wide enough that rollout noise alone rarely crosses it.
+ */
+export const MISTAKE_MARGIN = 0.15;
+
+export type AnalysisOptions = {
+  rollouts?: number;
+  /** Rolls and moves per rollout before it is called for the leader. */
+  horizon?: number;
+  random?: () => number;
+};
+
+/** One option for the dice on the table and how often it went on to win. */
+export type MoveAnalysis = {
+  option: MoveOption;
+  /** Share of rollouts won by the mover's side, 0 to 1. */
+  winRate: number;
+  rollouts: number;
+};
+
+/** A turn where the move played was clearly worse than the best one. */
+export type MoveMistake = {
+  /** Index of the move in the game log. */
+  logIndex: number;
+  player: PlayerColor;
+  chosen: MoveAnalysis;
+  best: MoveAnalysis;
+};
+
+function stepsOf(game: GameState, tokenId: string) {
+  return game.players.flatMap((p) => p.tokens).find((t) => t.id === tokenId)?.steps;
+}
+
+/** Who came first, or null while undecided. */
+function decided(game: GameState): PlayerColor | null {
+  if (game.rules.teams) return game.winner;
+  return game.finishOrder[0] ?? null;
+}
+
+/**
+ * Plays `game` out with random dice and the Normal bot moving for everyone,
+ * returning who came first, or who had moved furthest once `horizon` rolls
+ * and moves have passed. The log is dropped first to keep it cheap.
+ */
+export function rollout(
+  game: GameState,
+  random: () => number = Math.random,
+  horizon = DEFAULT_HORIZON
+) {
+  let state = game;
+  for (let actions = 0; actions < horizon; actions += 1) {
+    const winner = decided(state);
+    if (winner) return winner;
+    // Nothing reads the log here, and copying it every action adds up.
+    state = { ...state, log: [], redoLog: [], base: null };
+    if (!state.dice) {
+      state = gameReducer(state, roll(Math.floor(random() * 6) + 1));
+      continue;
+    }
+    const tokenId = chooseMove(state, "normal", random);
+    if (!tokenId) return null;
+    state = gameReducer(state, move(tokenId));
+  }
+  return decided(state) ?? leaderOf(state).color;
+}
+
+/**
+ * Every legal move for the dice on the table, best first, each judged by
+ * the share of rollouts after it that the mover's side won. Rollout `i`
+ * rolls the same dice whichever move came before it, so the options are
+ * compared on equal luck and fewer rollouts tell them apart.
+ */
+export function analyzeMoves(game: GameState, options: AnalysisOptions = {}): MoveAnalysis[] {
+  const { rollouts = DEFAULT_ROLLOUTS, horizon = DEFAULT_HORIZON, random = Math.random } = options;
+  if (!game.dice) return [];
+  const mover = game.currentPlayer;
+  const futures = Array.from({ length: rollouts }, () => random().toString(36));
+  // Tokens standing together make the same move, so each square is played out once.
+  const winRates = new Map<number | null | undefined, number>();
+  const winRateAfter = (option: MoveOption) => {
+    const from = stepsOf(game, option.tokenId);
+    const known = winRates.get(from);
+    if (known !== undefined) return known;
+    const after = gameReducer(game, move(option.tokenId));
+    let wins = 0;
+    for (let i = 0; i < rollouts; i += 1) {
+      const winner = rollout(after, seededRandom(futures[i]), horizon);
+      if (winner && sameSide(game, mover, winner)) wins += 1;
+    }
+    winRates.set(from, wins / rollouts);
+    return wins / rollouts;
+  };
+  return computeValidMoves(game, game.dice)
+    .moves.map((option) => ({ option, winRate: winRateAfter(option), rollouts }))
+    .sort((a, b) => b.winRate - a.winRate);
+}
+
+/**
+ * Replays `game` and analyses every move that had an alternative, flagging
+ * those that were clearly worse than the best. `onProgress` gets the share
+ * of the log covered so far. A game with no known start has nothing to replay.
+ */
+export function reviewGame(
+  game: GameState,
+  options: AnalysisOptions & { onProgress?: (done: number) => void } = {}
+): MoveMistake[] {
+  const { rollouts = REVIEW_ROLLOUTS, horizon = REVIEW_HORIZON, random, onProgress } = options;
+  const mistakes: MoveMistake[] = [];
+  const start = logStart(game);
+  if (!start) return mistakes;
+  let state = start;
+  game.log.forEach((entry, logIndex) => {
+    if (entry.kind === "move" && state.dice) {
+      // Tokens standing together make the same move; only real choices count.
+      const from = new Set(
+        computeValidMoves(state, state.dice).moves.map((m) => stepsOf(state, m.tokenId))
+      );
+      if (from.size > 1) {
+        const judge = (count: number) => {
+          const ranked = analyzeMoves(state, { rollouts: count, horizon, random });
+          const chosen = ranked.find((a) => a.option.tokenId === entry.tokenId);
+          return chosen && { chosen, best: ranked[0], gap: ranked[0].winRate - chosen.winRate };
+        };
+        // A logged move the rules don't offer here can't be judged, so it's skipped.
+        let verdict = judge(Math.min(REVIEW_SCREEN_ROLLOUTS, rollouts));
+        if (verdict && verdict.gap >= MISTAKE_MARGIN / 2 && rollouts > REVIEW_SCREEN_ROLLOUTS) {
+          verdict = judge(rollouts);
+        }
+        if (verdict && verdict.gap >= MISTAKE_MARGIN) {
+          const { chosen, best } = verdict;
+          mistakes.push({ logIndex, player: entry.player, chosen, best });
+        }
+      }
+    }
+    state = gameReducer(state, entryAction(entry));
+    onProgress?.((logIndex + 1) / game.log.length);
+  });
+  return mistakes;
+}
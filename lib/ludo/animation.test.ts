@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { STEP_MS, moveFrames } from "./animation";
+import { gameReducer, initialState, move, placeTokens, roll } from "./engine";
+import type { LogEntry } from "./types";
+
+function after(dice: number, tokenId: string, positions: Record<string, number | null>) {
+  const placed = placeTokens(initialState(), positions);
+  const next = gameReducer(gameReducer(placed, roll(dice)), move(tokenId));
+  const entry = next.log[next.log.length - 1] as Extract<LogEntry, { kind: "move" }>;
+  return moveFrames(next, entry);
+}
+
+describe("moveFrames", () => {
+  it("hops the mover through every cell it passes", () => {
+    const frames = after(4, "red-1", { "red-1": 10 });
+    expect(frames.map((f) => f.positions["red-1"])).toEqual([11, 12, 13, 14]);
+    expect(frames.every((f) => f.hop === "red-1" && f.ms === STEP_MS)).toBe(true);
+  });
+
+  it("enters from the yard in one hop", () => {
+    expect(after(6, "red-1", {}).map((f) => f.positions["red-1"])).toEqual([0]);
+  });
+
+  it("walks captured tokens back to their yard after the mover lands", () => {
+    // blue-1 at blue step 49 is track index 10
+    const frames = after(3, "red-1", { "red-1": 7, "blue-1": 49 });
+    expect(frames.slice(0, 3).map((f) => f.positions["blue-1"])).toEqual([49, 49, 49]);
+    const retreat = frames.slice(3);
+    expect(retreat).toHaveLength(50);
+    expect(retreat[0]).toMatchObject({ retreating: ["blue-1"], impact: 10 });
+    expect(retreat[0].positions["blue-1"]).toBe(48);
+    expect(retreat[retreat.length - 1].positions["blue-1"]).toBeNull();
+    expect(retreat.reduce((sum, f) => sum + f.ms, 0)).toBeLessThanOrEqual(1250);
+  });
+
+  it("celebrates a token reaching the finish", () => {
+    const frames = after(2, "red-1", { "red-1": 55 });
+    expect(frames[frames.length - 1]).toMatchObject({ celebrate: "red", positions: {} });
+  });
+});
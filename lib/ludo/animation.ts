@@ -0,0 +1,80 @@
+import { FINAL_STEPS_END, TRACK_LENGTH } from "./constants";
+import { pathSteps, tokenPhase } from "./engine";
+import type { GameState, LogEntry, PlayerColor } from "./types";
+
+export const STEP_MS = 160;
+export const CELEBRATE_MS = 900;
+// A capture can send a token most of a lap back; keep the trip short.
+const RETREAT_MAX_MS = 900;
+const RETREAT_MIN_STEP_MS = 25;
+
+type MoveEntry = Extract<LogEntry, { kind: "move" }>;
+
+/** One still of a move animation. */
+export type AnimationFrame = {
+  /** Steps to draw these tokens at instead of where the game has them. */
+  positions: Record<string, number | null>;
+  ms: number;
+  /** The token taking a step this frame. */
+  hop?: string;
+  /** Captured tokens on their way back to the yard. */
+  retreating?: string[];
+  /** Track index where a capture just happened. */
+  impact?: number;
+  /** A colour that just brought a token home. */
+  celebrate?: PlayerColor;
+};
+
+/**
+ * The frames that walk `entry` across the board, cell by cell, for the state
+ * right after it was applied: the mover's hops, then any captured tokens
+ * running back to their yard, then a celebration if the mover finished.
+ */
+export function moveFrames(game: GameState, entry: MoveEntry): AnimationFrame[] {
+  // The token's owner, who in team play may be the partner of `entry.player`.
+  const mover = game.players.find((p) => p.tokens.some((t) => t.id === entry.tokenId))!;
+  // Captures made by this move weren't counted yet when its path was chosen.
+  const before = { ...mover, captures: mover.captures - entry.captures.length };
+  const walked =
+    entry.from === null ? [0] : pathSteps(game.rules, before, entry.from, entry.dice);
+  const path = walked && walked[walked.length - 1] === entry.to ? walked : [entry.to];
+
+  const landing = tokenPhase(entry.to, mover.startIndex);
+  const victims = entry.captures.map((id) => {
+    const owner = game.players.find((p) => p.tokens.some((t) => t.id === id))!;
+    const trackIndex = landing.phase === "track" ? landing.trackIndex : owner.startIndex;
+    const steps = (trackIndex - owner.startIndex + TRACK_LENGTH) % TRACK_LENGTH;
+    const retreat: (number | null)[] = [];
+    for (let s = steps - 1; s >= 0; s -= 1) retreat.push(s);
+    retreat.push(null);
+    return { id, steps, retreat };
+  });
+  const waiting = Object.fromEntries(victims.map((v) => [v.id, v.steps]));
+
+  const frames: AnimationFrame[] = path.map((steps) => ({
+    positions: { ...waiting, [entry.tokenId]: steps },
+    ms: STEP_MS,
+    hop: entry.tokenId,
+  }));
+
+  const retreatLength = Math.max(0, ...victims.map((v) => v.retreat.length));
+  const retreatMs = Math.max(
+    RETREAT_MIN_STEP_MS,
+    Math.min(STEP_MS, Math.floor(RETREAT_MAX_MS / Math.max(retreatLength, 1)))
+  );
+  for (let i = 0; i < retreatLength; i += 1) {
+    frames.push({
+      positions: Object.fromEntries(
+        victims.map((v) => [v.id, v.retreat[Math.min(i, v.retreat.length - 1)]])
+      ),
+      ms: retreatMs,
+      retreating: victims.map((v) => v.id),
+      impact: landing.phase === "track" ? landing.trackIndex : undefined,
+    });
+  }
+
+  if (entry.to === FINAL_STEPS_END) {
+    frames.push({ positions: {}, ms: CELEBRATE_MS, celebrate: mover.color });
+  }
+  return frames;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { announceChange, describePlace, describeToken, tokenName } from "./announce";
+import {
+  computeValidMoves,
+  gameReducer,
+  initialState,
+  move,
+  placeTokens,
+  roll,
+  undo,
+} from "./engine";
+
+const placed = (positions: Record<string, number | null>) =>
+  placeTokens(initialState(), positions);
+
+describe("token descriptions", () => {
+  it("names tokens by colour and number", () => {
+    expect(tokenName(initialState().players, "blue-3")).toBe("Blue token 3");
+  });
+
+  it("says where a token stands", () => {
+    expect(describePlace(null)).toBe("in the yard");
+    expect(describePlace(38)).toBe("14 steps from home column");
+    expect(describePlace(56)).toBe("in home column, 1 step from the finish");
+    expect(describePlace(57)).toBe("finished");
+  });
+
+  it("describes what a movable token can do", () => {
+    const state = gameReducer(placed({ "red-2": 7, "blue-3": 49 }), roll(3));
+    const option = computeValidMoves(state, 3).moves.find((m) => m.tokenId === "red-2");
+    expect(describeToken(state, "red-2", option)).toBe(
+      "Red token 2, 45 steps from home column, can move to 42 steps from home column, can capture Blue token 3"
+    );
+    expect(describeToken(state, "red-1")).toBe("Red token 1, in the yard");
+  });
+});
+
+describe("announceChange", () => {
+  it("announces rolls and the choice that follows", () => {
+    const before = placed({ "red-1": 10 });
+    const after = gameReducer(before, roll(4));
+    expect(announceChange(before, after)).toBe(
+      "Red rolled a 4. Red, choose a token to move: 1 option."
+    );
+  });
+
+  it("explains a roll with no moves", () => {
+    const before = initialState();
+    expect(announceChange(before, gameReducer(before, roll(3)))).toBe(
+      "Red rolled a 3. No valid moves this turn. Blue to roll."
+    );
+  });
+
+  it("announces moves, captures and whose turn it is", () => {
+    const rolled = gameReducer(placed({ "red-1": 7, "blue-1": 49 }), roll(3));
+    const moved = gameReducer(rolled, move("red-1"));
+    expect(announceChange(rolled, moved)).toBe(
+      "Red moved Red token 1, now 42 steps from home column, capturing Blue token 1. Blue to roll."
+    );
+    expect(announceChange(moved, gameReducer(moved, undo()))).toMatch(/^Move taken back\./);
+  });
+
+  it("gives the place of a player who finishes while others play on", () => {
+    const start = placed({ "red-1": 57, "red-2": 57, "red-3": 57, "red-4": 55 });
+    const rolled = gameReducer({ ...start, rules: { ...start.rules, playToEnd: true } }, roll(2));
+    expect(announceChange(rolled, gameReducer(rolled, move("red-4")))).toBe(
+      "Red moved Red token 4 to the finish, placing 1st. Blue to roll."
+    );
+  });
+
+  it("stays quiet when nothing changed", () => {
+    const state = initialState();
+    expect(announceChange(state, state)).toBeNull();
+  });
+});
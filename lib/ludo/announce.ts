@@ -0,0 +1,106 @@
+import { FINAL_STEPS_END, FINAL_STEPS_START } from "./constants";
+import {
+  computeValidMoves,
+  defaultLabel,
+  findPlayer,
+  ordinal,
+  winMessage,
+  winningSide,
+} from "./engine";
+import type { GameState, MoveOption, Player } from "./types";
+
+function ownerOf(players: Player[], tokenId: string) {
+  return players.find((p) => p.tokens.some((t) => t.id === tokenId));
+}
+
+/** "Blue token 3": the colour on screen and the number on the token. */
+export function tokenName(players: Player[], tokenId: string) {
+  const owner = ownerOf(players, tokenId);
+  const number = tokenId.split("-")[1];
+  return owner ? `${defaultLabel(owner.color)} token ${number}` : tokenId;
+}
+
+/** Where a token stands, in words, e.g. "14 steps from home column". */
+export function describePlace(steps: number | null) {
+  if (steps === null) return "in the yard";
+  if (steps >= FINAL_STEPS_END) return "finished";
+  if (steps >= FINAL_STEPS_START) {
+    const left = FINAL_STEPS_END - steps;
+    return `in home column, ${left} ${left === 1 ? "step" : "steps"} from the finish`;
+  }
+  const left = FINAL_STEPS_START - steps;
+  return `${left} ${left === 1 ? "step" : "steps"} from home column`;
+}
+
+/**
+ * The accessible name for a token: who it is, where it is and, when it has
+ * a move for the dice on the table, what that move would do.
+ */
+export function describeToken(game: GameState, tokenId: string, option?: MoveOption) {
+  const owner = ownerOf(game.players, tokenId);
+  const token = owner?.tokens.find((t) => t.id === tokenId);
+  const parts = [tokenName(game.players, tokenId), describePlace(token?.steps ?? null)];
+  if (option?.blocked) {
+    parts.push(`blocked: ${option.blocked.reason}`);
+  } else if (option) {
+    parts.push(
+      option.nextSteps >= FINAL_STEPS_END
+        ? "can reach the finish"
+        : `can move to ${describePlace(option.nextSteps)}`
+    );
+    if (option.willCapture.length) {
+      parts.push(
+        `can capture ${option.willCapture.map((id) => tokenName(game.players, id)).join(" and ")}`
+      );
+    }
+  }
+  return parts.join(", ");
+}
+
+/** What happens next, after the last entry has been applied. */
+function whatNext(next: GameState) {
+  if (next.winner) return winMessage(winningSide(next));
+  const label = findPlayer(next.players, next.currentPlayer).label;
+  if (next.dice) {
+    const count = computeValidMoves(next, next.dice).moves.length;
+    return `${label}, choose a token to move: ${count} ${count === 1 ? "option" : "options"}.`;
+  }
+  return `${label} to roll.`;
+}
+
+/**
+ * One sentence or two for a screen reader describing how `next` differs
+ * from `prev`, or null when nothing worth saying happened.
+ */
+export function announceChange(prev: GameState, next: GameState): string | null {
+  if (prev === next) return null;
+  if (prev.id !== next.id) return `New game. ${whatNext(next)}`;
+  if (next.log.length < prev.log.length) return `Move taken back. ${whatNext(next)}`;
+  if (next.log.length !== prev.log.length + 1) return null;
+
+  const entry = next.log[next.log.length - 1];
+  const label = findPlayer(next.players, entry.player).label;
+  if (entry.kind === "roll") {
+    const sentence = (text: string) => text.replace(/\.?$/, ".");
+    // Roll-off messages already say who rolled what and who is next.
+    if (prev.openingRolls) return `${sentence(next.message)} ${whatNext(next)}`;
+    const rolled = `${label} rolled a ${entry.dice}.`;
+    // Without dice left on the table the message explains the pass or forfeit.
+    return next.dice
+      ? `${rolled} ${whatNext(next)}`
+      : `${rolled} ${sentence(next.message)} ${whatNext(next)}`;
+  }
+
+  const moved = `${label} moved ${tokenName(next.players, entry.tokenId)}`;
+  const finished = next.finishOrder.length > prev.finishOrder.length && !next.winner;
+  const place =
+    entry.to < FINAL_STEPS_END
+      ? `, now ${describePlace(entry.to)}`
+      : finished
+      ? ` to the finish, placing ${ordinal(next.finishOrder.indexOf(entry.player) + 1)}`
+      : " to the finish";
+  const captured = entry.captures.length
+    ? `, capturing ${entry.captures.map((id) => tokenName(next.players, id)).join(" and ")}`
+    : "";
+  return `${moved}${place}${captured}. ${whatNext(next)}`;
+}
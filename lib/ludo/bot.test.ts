@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { chooseMove } from "./bot";
+import { computeValidMoves, gameReducer, initialState, placeTokens, roll } from "./engine";
+import type { GameState } from "./types";
+
+function rolled(
+  dice: number,
+  positions: Partial<Record<string, number | null>>,
+  seats = initialState().players.map(({ color, label }) => ({ color, label }))
+): GameState {
+  return gameReducer(placeTokens(initialState({ seats }), positions), roll(dice));
+}
+
+describe("chooseMove", () => {
+  it("returns null without dice or moves", () => {
+    expect(chooseMove(initialState(), "normal")).toBeNull();
+  });
+
+  it("easy picks any legal move using the supplied random source", () => {
+    const state = rolled(6, {});
+    const legal = computeValidMoves(state, 6).moves.map((m) => m.tokenId);
+    expect(chooseMove(state, "easy", () => 0)).toBe(legal[0]);
+    expect(chooseMove(state, "easy", () => 0.99)).toBe(legal[legal.length - 1]);
+  });
+
+  describe("normal", () => {
+    it("prefers captures", () => {
+      // blue-1 at track 10
+      const state = rolled(3, { "red-1": 7, "red-2": 5, "blue-1": 49 });
+      expect(chooseMove(state, "normal")).toBe("red-1");
+    });
+
+    it("then prefers landing on a safe cell", () => {
+      // red-2 lands on safe track 8
+      const state = rolled(3, { "red-1": 20, "red-2": 5 });
+      expect(chooseMove(state, "normal")).toBe("red-2");
+    });
+
+    it("then leaves home on a 6", () => {
+      const state = rolled(6, { "red-1": 19 });
+      expect(chooseMove(state, "normal")).toBe("red-2");
+    });
+
+    it("then advances the rearmost threatened token", () => {
+      // blue-1 at track 16 threatens red-1 (track 18) and red-2 (track 20)
+      const state = rolled(2, { "red-1": 18, "red-2": 20, "red-3": 30, "blue-1": 3 });
+      expect(chooseMove(state, "normal")).toBe("red-1");
+    });
+  });
+
+  describe("hard", () => {
+    it("takes a winning move", () => {
+      const state = rolled(2, { "red-1": 57, "red-2": 57, "red-3": 57, "red-4": 55 });
+      expect(chooseMove(state, "hard")).toBe("red-4");
+    });
+
+    it("avoids landing right in front of an opponent", () => {
+      // red-1 -> track 15 sits 2 ahead of blue-1 (track 13); red-2 -> 23 is clear
+      const state = rolled(
+        3,
+        { "red-1": 12, "red-2": 20, "blue-1": 0 },
+        [
+          { color: "red", label: "Red" },
+          { color: "blue", label: "Blue" },
+        ]
+      );
+      expect(chooseMove(state, "hard")).toBe("red-2");
+    });
+  });
+});
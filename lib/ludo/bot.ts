@@ -0,0 +1,142 @@
+import { FINAL_STEPS_END } from "./constants";
+import {
+  computeValidMoves,
+  gameReducer,
+  move,
+  movingPlayer,
+  sameSide,
+  tokenPhase,
+} from "./engine";
+import { threatsTo } from "./preview";
+import { isSafeCell } from "./rules";
+import type { BotLevel, GameState, MoveOption, Player, PlayerColor } from "./types";
+
+const FINISH_BONUS = 10;
+
+/** How far a token has come, with a bonus for finishing. */
+function progress(steps: number | null) {
+  if (steps === null) return 0;
+  return steps >= FINAL_STEPS_END ? steps + 1 + FINISH_BONUS : steps + 1;
+}
+
+function tokenOwner(game: GameState, tokenId: string) {
+  return game.players.find((p) => p.tokens.some((t) => t.id === tokenId))!;
+}
+
+function stepsOf(player: Player, tokenId: string) {
+  return player.tokens.find((t) => t.id === tokenId)?.steps ?? null;
+}
+
+function landsSafe(game: GameState, player: Player, option: MoveOption) {
+  const info = tokenPhase(option.nextSteps, player.startIndex);
+  return info.phase !== "track" || isSafeCell(game.rules, info.trackIndex);
+}
+
+function pickEasy(moves: MoveOption[], random: () => number) {
+  return moves[Math.floor(random() * moves.length)];
+}
+
+/** Captures, then safe landings, then leaving home on a 6, then rescue the rearmost threatened token. */
+function pickNormal(game: GameState, moves: MoveOption[]) {
+  const player = movingPlayer(game);
+
+  const captures = moves.filter((m) => m.willCapture.length);
+  if (captures.length) {
+    const value = (m: MoveOption) =>
+      m.willCapture.reduce(
+        (sum, id) => sum + progress(stepsOf(tokenOwner(game, id), id)),
+        0
+      );
+    return captures.reduce((best, m) => (value(m) > value(best) ? m : best));
+  }
+
+  const safe = moves.find(
+    (m) => stepsOf(player, m.tokenId) !== null && landsSafe(game, player, m)
+  );
+  if (safe) return safe;
+
+  const entering = moves.find((m) => stepsOf(player, m.tokenId) === null);
+  if (entering && game.dice === 6) return entering;
+
+  const threatened = moves
+    .filter((m) => {
+      const info = tokenPhase(stepsOf(player, m.tokenId), player.startIndex);
+      return (
+          info.phase === "track" && threatsTo(game, player.color, info.trackIndex).length > 0
+        );
+    })
+    .sort((a, b) => (stepsOf(player, a.tokenId) ?? 0) - (stepsOf(player, b.tokenId) ?? 0));
+  if (threatened.length) return threatened[0];
+
+  return moves.reduce((best, m) => (m.nextSteps > best.nextSteps ? m : best));
+}
+
+/** Own side's progress against the average opponent's. */
+function evaluate(game: GameState, color: PlayerColor) {
+  const total = (p: Player) => p.tokens.reduce((sum, t) => sum + progress(t.steps), 0);
+  const opponents = game.players.filter((p) => !sameSide(game, color, p.color));
+  const mine = game.players
+    .filter((p) => sameSide(game, color, p.color))
+    .reduce((sum, p) => sum + total(p), 0);
+  if (!opponents.length) return mine;
+  return mine - opponents.reduce((sum, p) => sum + total(p), 0) / opponents.length;
+}
+
+/** Progress `color`'s side expects to lose to captures over each opponent's next roll. */
+function expectedLoss(game: GameState, color: PlayerColor) {
+  return game.players
+    .filter((p) => !sameSide(game, color, p.color))
+    .reduce((loss, opponent) => {
+      const theirTurn: GameState = {
+        ...game,
+        currentPlayer: opponent.color,
+        dice: null,
+        openingRolls: null,
+      };
+      let worst = 0;
+      for (let dice = 1; dice <= 6; dice += 1) {
+        const { moves } = computeValidMoves(theirTurn, dice);
+        worst += moves.reduce((best, m) => {
+          const lost = m.willCapture
+            .filter((id) => sameSide(game, color, tokenOwner(game, id).color))
+            .reduce((sum, id) => sum + progress(stepsOf(tokenOwner(game, id), id)), 0);
+          return Math.max(best, lost);
+        }, 0);
+      }
+      return loss + worst / 6;
+    }, 0);
+}
+
+function pickHard(game: GameState, moves: MoveOption[]) {
+  const color = game.currentPlayer;
+  const score = (m: MoveOption) => {
+    const after = gameReducer(game, move(m.tokenId));
+    if (after.winner && sameSide(game, color, after.winner)) return Infinity;
+    return evaluate(after, color) - expectedLoss(after, color);
+  };
+  return moves
+    .map((m) => ({ m, value: score(m) }))
+    .reduce((best, next) => (next.value > best.value ? next : best)).m;
+}
+
+/**
+ * The token a bot of `level` moves for the dice on the table, or null when
+ * there is nothing to move. Pure apart from `random`, which only Easy uses.
+ */
+export function chooseMove(
+  game: GameState,
+  level: BotLevel,
+  random: () => number = Math.random
+): string | null {
+  if (!game.dice) return null;
+  const { moves } = computeValidMoves(game, game.dice);
+  if (!moves.length) return null;
+  switch (level) {
+    case "easy":
+      return pickEasy(moves, random).tokenId;
+    case "normal":
+      return pickNormal(game, moves).tokenId;
+    case "hard":
+      return pickHard(game, moves).tokenId;
+  }
+}
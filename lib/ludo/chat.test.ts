@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  CHAT_HISTORY,
+  MAX_MESSAGE_LENGTH,
+  addChatLines,
+  chatLineFor,
+  cleanMessage,
+  filterProfanity,
+  systemLines,
+} from "./chat";
+import { gameReducer, initialState, move, placeTokens, roll, undo } from "./engine";
+import type { Action, GameState } from "./types";
+
+const placed = (positions: Record<string, number | null>, state = initialState()) =>
+  placeTokens(state, positions);
+
+const linesOf = (state: GameState, ...actions: Action[]) => {
+  const before = actions.slice(0, -1).reduce(gameReducer, state);
+  return systemLines(before, gameReducer(before, actions[actions.length - 1]));
+};
+
+describe("filterProfanity", () => {
+  it("stars out blocked words, their endings and lookalike spellings", () => {
+    expect(filterProfanity("Oh SHIT, sh1tty luck, bitches")).toBe(
+      "Oh S***, s***** luck, b******"
+    );
+  });
+
+  it("leaves words that only contain a blocked one alone", () => {
+    expect(filterProfanity("Pass the class assessment in Scunthorpe")).toBe(
+      "Pass the class assessment in Scunthorpe"
+    );
+  });
+});
+
+describe("cleanMessage", () => {
+  it("collapses spaces and caps the length", () => {
+    expect(cleanMessage("  nice \n  move ")).toBe("nice move");
+    expect(cleanMessage("x".repeat(500))).toHaveLength(MAX_MESSAGE_LENGTH);
+    expect(cleanMessage(" \t ")).toBeNull();
+  });
+
+  it("only turns listed emoji into reactions", () => {
+    expect(chatLineFor({ kind: "reaction", emoji: "🎉" }, "red")).toEqual({
+      kind: "reaction",
+      color: "red",
+      text: "🎉",
+    });
+    expect(chatLineFor({ kind: "reaction", emoji: "hello" }, "red")).toBeNull();
+  });
+});
+
+describe("addChatLines", () => {
+  it("numbers lines on and keeps only the most recent", () => {
+    const line = { kind: "system" as const, color: null, text: "hi" };
+    const lines = addChatLines([], Array(CHAT_HISTORY + 5).fill(line));
+    expect(lines).toHaveLength(CHAT_HISTORY);
+    expect(lines[0].id).toBe(6);
+    expect(addChatLines(lines, [line]).at(-1)!.id).toBe(CHAT_HISTORY + 6);
+    expect(addChatLines(lines, [])).toBe(lines);
+  });
+});
+
+describe("systemLines", () => {
+  it("calls out sixes but not the roll-off", () => {
+    expect(linesOf(initialState(), roll(6))).toEqual(["Red rolled a 6"]);
+    expect(linesOf(initialState(), roll(4))).toEqual([]);
+    expect(linesOf(initialState({ firstPlayer: "roll" }), roll(6))).toEqual([]);
+  });
+
+  it("reports captures and tokens reaching home", () => {
+    // blue-1 at blue step 49 is track index 10
+    expect(linesOf(placed({ "red-1": 7, "blue-1": 49 }), roll(3), move("red-1"))).toEqual([
+      "Red captured Blue token 1",
+    ]);
+    expect(linesOf(placed({ "red-1": 55 }), roll(2), move("red-1"))).toEqual([
+      "Red token 1 reached home",
+    ]);
+  });
+
+  it("announces the win once, without a separate finish line", () => {
+    expect(
+      linesOf(placed({ "red-1": 57, "red-2": 57, "red-3": 57, "red-4": 55 }), roll(2), move("red-4"))
+    ).toEqual(["Red token 4 reached home", "Red wins!"]);
+  });
+
+  it("gives places when playing to the end", () => {
+    const state = initialState({ rules: { ...initialState().rules, playToEnd: true } });
+    expect(
+      linesOf(
+        placed({ "red-1": 57, "red-2": 57, "red-3": 57, "red-4": 55 }, state),
+        roll(2),
+        move("red-4")
+      )
+    ).toEqual(["Red token 4 reached home", "Red finished 1st"]);
+  });
+
+  it("stays quiet for undo", () => {
+    const played = [roll(6)].reduce(gameReducer, initialState());
+    expect(systemLines(played, gameReducer(played, undo()))).toEqual([]);
+  });
+});
@@ -0,0 +1,131 @@
+import { FINAL_STEPS_END } from "./constants";
+import { tokenName } from "./announce";
+import { findPlayer, ordinal, winMessage, winningSide } from "./engine";
+import type { GameState, PlayerColor } from "./types";
+
+/** A line in the table chat; system lines narrate the game and have no speaker. */
+export type ChatLine = {
+  id: number;
+  kind: "system" | "message" | "reaction";
+  color: PlayerColor | null;
+  text: string;
+};
+
+/** What a seat can post. Reactions are limited to `REACTIONS`. */
+export type ChatPost = { kind: "message"; text: string } | { kind: "reaction"; emoji: string };
+
+export const REACTIONS = ["👏", "😂", "😮", "😢", "😤", "🎉"];
+export const MAX_MESSAGE_LENGTH = 140;
+/** Older lines are dropped so rooms and snapshots stay small. */
+export const CHAT_HISTORY = 100;
+
+// Matched after undoing common letter swaps, so "sh1t" is caught too.
+const BLOCKED_WORDS = [
+  "arse",
+  "arsehole",
+  "ass",
+  "asshole",
+  "bastard",
+  "bitch",
+  "bollocks",
+  "bullshit",
+  "cock",
+  "crap",
+  "cunt",
+  "dick",
+  "dickhead",
+  "fuck",
+  "fucker",
+  "fucking",
+  "motherfucker",
+  "piss",
+  "prick",
+  "shit",
+  "shitty",
+  "slut",
+  "twat",
+  "wanker",
+  "whore",
+];
+const BLOCKED = new Set(BLOCKED_WORDS);
+const LOOKALIKES: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "@": "a",
+  $: "s",
+};
+
+function blocked(word: string) {
+  const plain = word.toLowerCase().replace(/[0-9@$]/g, (c) => LOOKALIKES[c] ?? c);
+  return BLOCKED.has(plain) || BLOCKED.has(plain.replace(/(s|es|ed|er|ing)$/, ""));
+}
+
+/** `text` with blocked words starred out past their first letter. */
+export function filterProfanity(text: string) {
+  return text.replace(/[\p{L}\p{N}@$]+/gu, (word) =>
+    blocked(word) ? word[0] + "*".repeat(word.length - 1) : word
+  );
+}
+
+/** A message tidied and filtered for posting, or null when nothing is left of it. */
+export function cleanMessage(text: string): string | null {
+  const tidy = text.replace(/\s+/g, " ").trim().slice(0, MAX_MESSAGE_LENGTH);
+  return tidy ? filterProfanity(tidy) : null;
+}
+
+/** The line for `post` from `color`, or null when it isn't something to show. */
+export function chatLineFor(
+  post: ChatPost,
+  color: PlayerColor | null
+): Omit<ChatLine, "id"> | null {
+  if (post.kind === "reaction") {
+    return REACTIONS.includes(post.emoji) ? { kind: "reaction", color, text: post.emoji } : null;
+  }
+  const text = cleanMessage(post.text);
+  return text ? { kind: "message", color, text } : null;
+}
+
+/** `lines` with `added` numbered on after them, keeping the last CHAT_HISTORY. */
+export function addChatLines(lines: ChatLine[], added: Omit<ChatLine, "id">[]): ChatLine[] {
+  if (!added.length) return lines;
+  const next = lines.length ? lines[lines.length - 1].id + 1 : 1;
+  return [...lines, ...added.map((line, idx) => ({ ...line, id: next + idx }))].slice(
+    -CHAT_HISTORY
+  );
+}
+
+/**
+ * Table-talk for the log entries between `prev` and `next`: sixes, captures,
+ * tokens reaching home, finishes and the win. Undo and new games say nothing.
+ */
+export function systemLines(prev: GameState, next: GameState): string[] {
+  if (prev.id !== next.id || next.log.length <= prev.log.length) return [];
+  const label = (color: PlayerColor) => findPlayer(next.players, color).label;
+  const lines: string[] = [];
+  next.log.slice(prev.log.length).forEach((entry) => {
+    if (entry.kind === "roll") {
+      // Roll-off sixes only pick who starts.
+      if (entry.dice === 6 && !prev.openingRolls) {
+        lines.push(`${label(entry.player)} rolled a 6`);
+      }
+      return;
+    }
+    entry.captures.forEach((id) => {
+      lines.push(`${label(entry.player)} captured ${tokenName(next.players, id)}`);
+    });
+    if (entry.to >= FINAL_STEPS_END) {
+      lines.push(`${tokenName(next.players, entry.tokenId)} reached home`);
+    }
+  });
+  next.finishOrder.slice(prev.finishOrder.length).forEach((color) => {
+    // Finishing first and winning at once is said by the win line alone.
+    if (next.winner === color && !prev.winner) return;
+    const place = next.finishOrder.indexOf(color) + 1;
+    lines.push(`${label(color)} finished ${ordinal(place)}`);
+  });
+  if (next.winner && !prev.winner) lines.push(winMessage(winningSide(next)));
+  return lines;
+}
@@ -0,0 +1,27 @@
+import type { PlayerColor } from "./types";
+
+export const START_INDICES: Record<PlayerColor, number> = {
+  red: 0,
+  blue: 13,
+  yellow: 26,
+  green: 39,
+};
+
+/** Clockwise seating around the board; also the turn order. */
+export const SEAT_ORDER: PlayerColor[] = ["red", "blue", "yellow", "green"];
+
+/** Team partners sit opposite each other: red with yellow, blue with green. */
+export const PARTNERS: Record<PlayerColor, PlayerColor> = {
+  red: "yellow",
+  yellow: "red",
+  blue: "green",
+  green: "blue",
+};
+
+export const MIN_PLAYERS = 2;
+
+export const SAFE_CELLS = new Set([0, 8, 13, 21, 26, 34, 39, 47]);
+export const TRACK_LENGTH = 52;
+export const TOKENS_PER_PLAYER = 4;
+export const FINAL_STEPS_START = 52;
+export const FINAL_STEPS_END = 57; // inclusive, 57 means finished
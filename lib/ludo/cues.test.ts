@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { cuesFor } from "./cues";
+import { gameReducer, initialState, move, placeTokens, roll, undo } from "./engine";
+import type { GameState } from "./types";
+
+const placed = (positions: Record<string, number | null>) =>
+  placeTokens(initialState(), positions);
+
+const cuesOf = (state: GameState, ...actions: Parameters<typeof gameReducer>[1][]) => {
+  const before = actions.slice(0, -1).reduce(gameReducer, state);
+  return cuesFor(before, gameReducer(before, actions[actions.length - 1]));
+};
+
+describe("cuesFor", () => {
+  it("sounds every roll", () => {
+    expect(cuesOf(initialState(), roll(3))).toEqual(["roll"]);
+  });
+
+  it("marks captures and the extra turn after a 6", () => {
+    // blue-1 at blue step 49 is track index 10
+    expect(cuesOf(placed({ "red-1": 7, "blue-1": 49 }), roll(3), move("red-1"))).toEqual([
+      "capture",
+    ]);
+    expect(cuesOf(placed({ "red-1": 7 }), roll(6), move("red-1"))).toEqual(["extraTurn"]);
+  });
+
+  it("celebrates reaching home and winning", () => {
+    expect(cuesOf(placed({ "red-1": 55, "red-2": 10 }), roll(2), move("red-1"))).toEqual([
+      "home",
+    ]);
+    expect(
+      cuesOf(placed({ "red-1": 57, "red-2": 57, "red-3": 57, "red-4": 55 }), roll(2), move("red-4"))
+    ).toEqual(["home", "win"]);
+  });
+
+  it("stays quiet for undo and new games", () => {
+    const state = gameReducer(initialState(), roll(3));
+    expect(cuesFor(state, gameReducer(state, undo()))).toEqual([]);
+    expect(cuesFor(state, initialState())).toEqual([]);
+  });
+});
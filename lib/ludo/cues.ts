@@ -0,0 +1,25 @@
+import { FINAL_STEPS_END } from "./constants";
+import type { GameState } from "./types";
+
+/** Feedback-worthy moments; each maps to a sound and maybe a vibration. */
+export type Cue = "roll" | "step" | "capture" | "home" | "extraTurn" | "win";
+
+/**
+ * The cues for going from `prev` to `next` by one new log entry. Steps are
+ * left to the move animation, which knows when each hop lands.
+ */
+export function cuesFor(prev: GameState, next: GameState): Cue[] {
+  if (prev.id !== next.id || next.log.length !== prev.log.length + 1) return [];
+  const entry = next.log[next.log.length - 1];
+  if (entry.kind === "roll") return ["roll"];
+
+  const cues: Cue[] = [];
+  if (entry.captures.length) cues.push("capture");
+  if (entry.to >= FINAL_STEPS_END) cues.push("home");
+  if (next.winner) {
+    cues.push("win");
+  } else if (next.currentPlayer === entry.player) {
+    cues.push("extraTurn");
+  }
+  return cues;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  type DiceSource,
+  cryptoDice,
+  manualDice,
+  rollCount,
+  scriptedDice,
+  seededDice,
+  seededRoll,
+} from "./dice";
+import { computeValidMoves, gameReducer, initialState, move, roll } from "./engine";
+import type { GameSetup, GameState } from "./types";
+
+/** Plays `turns` rolls, always taking the first legal move. */
+function autoplay(setup: Partial<GameSetup>, source: DiceSource, turns: number) {
+  let state: GameState = initialState(setup);
+  for (let i = 0; i < turns && !state.winner; i += 1) {
+    state = gameReducer(state, roll(source.roll(state)));
+    if (state.dice) {
+      const [first] = computeValidMoves(state, state.dice).moves;
+      state = gameReducer(state, move(first.tokenId));
+    }
+  }
+  return state;
+}
+
+describe("seeded dice", () => {
+  it("rolls values from 1 to 6", () => {
+    const values = Array.from({ length: 600 }, (_, i) => seededRoll("spread", i));
+    for (let face = 1; face <= 6; face += 1) {
+      expect(values.filter((v) => v === face).length).toBeGreaterThan(60);
+    }
+    expect(values.every((v) => Number.isInteger(v) && v >= 1 && v <= 6)).toBe(true);
+  });
+
+  it("replays identical games from the same seed", () => {
+    const a = autoplay({ seed: "friday-night" }, seededDice(), 80);
+    const b = autoplay({ seed: "friday-night" }, seededDice(), 80);
+    const c = autoplay({ seed: "saturday" }, seededDice(), 80);
+    expect(a.seed).toBe("friday-night");
+    // The same dice, but still a game of its own.
+    expect(b).toEqual({ ...a, id: b.id });
+    expect(b.id).not.toBe(a.id);
+    expect(c.log).not.toEqual(a.log);
+  });
+
+  it("gives the same roll again after undo", () => {
+    const source = seededDice();
+    const start = initialState({ seed: "undo" });
+    const first = source.roll(start);
+    const rolled = gameReducer(start, roll(first));
+    const undone = gameReducer(rolled, { type: "undo" });
+    expect(rollCount(undone)).toBe(0);
+    expect(source.roll(undone)).toBe(first);
+  });
+
+  it("picks a random seed when none is given", () => {
+    expect(initialState().seed).toMatch(/^[0-9a-z]{8}$/);
+    expect(initialState({ seed: "  " }).seed).not.toBe("");
+  });
+});
+
+describe("scripted and manual dice", () => {
+  it("plays back a script by roll number", () => {
+    const source = scriptedDice([6, 2, 5]);
+    let state = initialState();
+    const seen: number[] = [];
+    for (let i = 0; i < 4; i += 1) {
+      const value = source.roll(state);
+      seen.push(value);
+      state = gameReducer(state, roll(value));
+      if (state.dice) state = gameReducer(state, move("red-1"));
+    }
+    expect(seen).toEqual([6, 2, 5, 6]);
+  });
+
+  it("rejects an empty script", () => {
+    expect(() => scriptedDice([])).toThrow();
+  });
+
+  it("returns the typed value", () => {
+    expect(manualDice(4).roll(initialState())).toBe(4);
+  });
+
+  it("ignores values a die cannot show", () => {
+    const state = initialState();
+    expect(gameReducer(state, roll(7))).toBe(state);
+    expect(gameReducer(state, roll(2.5))).toBe(state);
+  });
+});
+
+describe("crypto dice", () => {
+  it("rolls every face from 1 to 6", () => {
+    const source = cryptoDice();
+    const values = Array.from({ length: 600 }, () => source.roll(initialState()));
+    for (let face = 1; face <= 6; face += 1) {
+      expect(values).toContain(face);
+    }
+    expect(values.every((v) => Number.isInteger(v) && v >= 1 && v <= 6)).toBe(true);
+  });
+});
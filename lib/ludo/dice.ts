@@ -0,0 +1,79 @@
+import type { GameState } from "./types";
+
+/** Where the next roll comes from. Every roll in the app goes through one. */
+export type DiceSource = {
+  roll: (game: GameState) => number;
+};
+
+/** How many rolls the game has already seen; the index of the next one. */
+export function rollCount(game: GameState) {
+  return game.log.filter((entry) => entry.kind === "roll").length;
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 36 ** 8)
+    .toString(36)
+    .padStart(8, "0");
+}
+
+// xmur3 string hash feeding one round of mulberry32.
+function hashToUnit(input: string) {
+  let h = 1779033703 ^ input.length;
+  for (let i = 0; i < input.length; i += 1) {
+    h = Math.imul(h ^ input.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  let t = ((h ^ (h >>> 16)) + 0x6d2b79f5) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/** The `index`-th roll of a game seeded with `seed`. */
+export function seededRoll(seed: string, index: number) {
+  return Math.floor(hashToUnit(`${seed}:${index}`) * 6) + 1;
+}
+
+/** A repeatable stream in [0, 1) for choices that aren't die rolls. */
+export function seededRandom(seed: string) {
+  let index = 0;
+  return () => hashToUnit(`${seed}:choice:${index++}`);
+}
+
+/**
+ * Rolls derived from `game.seed` and the number of rolls so far, so the same
+ * seed played the same way always gives the same game, even across undo.
+ */
+export function seededDice(): DiceSource {
+  return { roll: (game) => seededRoll(game.seed, rollCount(game)) };
+}
+
+/** A fixed sequence for tests and tutorials; wraps round when exhausted. */
+export function scriptedDice(values: number[]): DiceSource {
+  if (!values.length) throw new Error("scriptedDice needs at least one value");
+  return { roll: (game) => values[rollCount(game) % values.length] };
+}
+
+/** A number someone read off a physical die. */
+export function manualDice(value: number): DiceSource {
+  return { roll: () => value };
+}
+
+/**
+ * Unpredictable rolls for when players mustn't be able to work out the next
+ * one from the seed, e.g. on a shared game server.
+ */
+export function cryptoDice(): DiceSource {
+  return {
+    roll: () => {
+      const buffer = new Uint8Array(1);
+      // 252 is the largest multiple of 6 under 256; rejecting above it keeps faces even.
+      do {
+        globalThis.crypto.getRandomValues(buffer);
+      } while (buffer[0] >= 252);
+      return (buffer[0] % 6) + 1;
+    },
+  };
+}
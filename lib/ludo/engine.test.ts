@@ -0,0 +1,290 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeValidMoves,
+  gameReducer,
+  initialState,
+  move,
+  nextPlayerColor,
+  placeTokens,
+  roll,
+  tokenPhase,
+  undo,
+} from "./engine";
+import { DEFAULT_RULES } from "./rules";
+import type { Action, GameState, PlayerColor } from "./types";
+
+function onTurn(state: GameState, color: PlayerColor): GameState {
+  return { ...state, currentPlayer: color };
+}
+
+function stepsOf(state: GameState, tokenId: string) {
+  for (const player of state.players) {
+    const token = player.tokens.find((t) => t.id === tokenId);
+    if (token) return token.steps;
+  }
+  throw new Error(`unknown token ${tokenId}`);
+}
+
+describe("tokenPhase", () => {
+  it("maps relative steps onto the shared track", () => {
+    expect(tokenPhase(null, 13)).toEqual({ phase: "home" });
+    expect(tokenPhase(0, 13)).toEqual({ phase: "track", trackIndex: 13 });
+    expect(tokenPhase(45, 13)).toEqual({ phase: "track", trackIndex: 6 });
+    expect(tokenPhase(54, 13)).toEqual({ phase: "final", finalIndex: 2 });
+    expect(tokenPhase(57, 13)).toEqual({ phase: "done" });
+  });
+});
+
+describe("entering the board", () => {
+  it("needs a 6 to leave home", () => {
+    const state = initialState();
+    expect(computeValidMoves(state, 5).moves).toEqual([]);
+    expect(computeValidMoves(state, 6).moves.map((m) => m.tokenId)).toEqual([
+      "red-1",
+      "red-2",
+      "red-3",
+      "red-4",
+    ]);
+  });
+
+  it("passes the turn when nothing can move", () => {
+    const next = gameReducer(initialState(), roll(3));
+    expect(next.currentPlayer).toBe("blue");
+    expect(next.dice).toBeNull();
+    expect(next.message).toBe("No valid moves this turn.");
+  });
+
+  it("keeps the turn after a 6 with no moves", () => {
+    const state = placeTokens(initialState(), {
+      "red-1": 57,
+      "red-2": 57,
+      "red-3": 57,
+      "red-4": 55,
+    });
+    const next = gameReducer(state, roll(6));
+    expect(next.currentPlayer).toBe("red");
+    expect(next.message).toBe("No piece can enter or move; roll again.");
+  });
+
+  it("enters a token on a 6 and grants another roll", () => {
+    let state = gameReducer(initialState(), roll(6));
+    expect(state.dice).toBe(6);
+    state = gameReducer(state, move("red-2"));
+    expect(stepsOf(state, "red-2")).toBe(0);
+    expect(state.currentPlayer).toBe("red");
+    expect(state.dice).toBeNull();
+    expect(state.message).toBe("Red rolled a 6 - go again");
+  });
+});
+
+describe("captures", () => {
+  it("sends opponents on the landing cell home", () => {
+    // red-1 at track 10, blue-1 at blue step 49 => track (13 + 49) % 52 = 10
+    let state = placeTokens(initialState(), { "red-1": 7, "blue-1": 49 });
+    state = gameReducer(state, roll(3));
+    const [option] = computeValidMoves(state, 3).moves;
+    expect(option.willCapture).toEqual(["blue-1"]);
+
+    state = gameReducer(state, move("red-1"));
+    expect(stepsOf(state, "red-1")).toBe(10);
+    expect(stepsOf(state, "blue-1")).toBeNull();
+    expect(state.currentPlayer).toBe("blue");
+  });
+
+  it("never captures on a safe cell", () => {
+    // track 8 is safe; blue step 47 => track 8
+    let state = placeTokens(initialState(), { "red-1": 5, "blue-1": 47 });
+    state = gameReducer(state, roll(3));
+    expect(computeValidMoves(state, 3).moves[0].willCapture).toEqual([]);
+
+    state = gameReducer(state, move("red-1"));
+    expect(stepsOf(state, "red-1")).toBe(8);
+    expect(stepsOf(state, "blue-1")).toBe(47);
+  });
+
+  it("does not capture its own tokens", () => {
+    const state = placeTokens(initialState(), { "red-1": 4, "red-2": 9 });
+    const option = computeValidMoves(state, 5).moves.find(
+      (m) => m.tokenId === "red-1"
+    );
+    expect(option?.willCapture).toEqual([]);
+  });
+});
+
+describe("final lane", () => {
+  it("moves from the track into the final lane", () => {
+    const state = placeTokens(initialState(), { "red-1": 50 });
+    const [option] = computeValidMoves(state, 4).moves;
+    expect(option.nextSteps).toBe(54);
+    expect(tokenPhase(option.nextSteps, 0)).toEqual({
+      phase: "final",
+      finalIndex: 2,
+    });
+  });
+
+  it("rejects rolls that overshoot the finish", () => {
+    const state = placeTokens(initialState(), { "red-1": 55 });
+    expect(computeValidMoves(state, 3).moves).toEqual([]);
+    expect(computeValidMoves(state, 2).moves[0].nextSteps).toBe(57);
+  });
+
+  it("ignores moves for tokens that cannot legally move", () => {
+    let state = placeTokens(initialState(), { "red-1": 55, "red-2": 10 });
+    state = gameReducer(state, roll(4));
+    const after = gameReducer(state, move("red-1"));
+    expect(after).toBe(state);
+  });
+});
+
+describe("winning", () => {
+  it("declares a winner when the last token finishes", () => {
+    let state = placeTokens(initialState(), {
+      "red-1": 57,
+      "red-2": 57,
+      "red-3": 57,
+      "red-4": 51,
+    });
+    state = gameReducer(state, roll(6));
+    state = gameReducer(state, move("red-4"));
+    expect(state.winner).toBe("red");
+    expect(state.finishOrder).toEqual(["red"]);
+    expect(state.currentPlayer).toBe("red");
+    expect(state.message).toBe("Red wins!");
+    expect(computeValidMoves(state, 6)).toEqual({
+      moves: [],
+      blocked: [],
+      reason: "Game finished",
+    });
+  });
+
+  it("ignores rolls once the game is over", () => {
+    const state = { ...onTurn(initialState(), "blue"), winner: "red" as const };
+    expect(gameReducer(state, roll(6))).toBe(state);
+  });
+});
+
+describe("playing to the end", () => {
+  const start = () =>
+    placeTokens(
+      initialState({
+        seats: (["red", "blue", "yellow"] as const).map((color) => ({ color, label: "" })),
+        rules: { ...DEFAULT_RULES, playToEnd: true },
+      }),
+      {
+        "red-1": 57,
+        "red-2": 57,
+        "red-3": 57,
+        "red-4": 55,
+        "blue-1": 57,
+        "blue-2": 57,
+        "blue-3": 57,
+        "blue-4": 56,
+        "yellow-1": 10,
+      }
+    );
+  const play = (state: GameState, ...actions: Action[]) => actions.reduce(gameReducer, state);
+
+  it("keeps going after the first player finishes", () => {
+    const state = play(start(), roll(2), move("red-4"));
+    expect(state.winner).toBeNull();
+    expect(state.finishOrder).toEqual(["red"]);
+    expect(state.currentPlayer).toBe("blue");
+    expect(state.message).toBe("Red finishes 1st - Blue to roll");
+  });
+
+  it("skips finished players in the rotation", () => {
+    const state = play(start(), roll(2), move("red-4"), roll(3), roll(2), move("yellow-1"));
+    expect(state.currentPlayer).toBe("blue");
+  });
+
+  it("ranks the last player left and ends the game", () => {
+    const state = play(start(), roll(2), move("red-4"), roll(1), move("blue-4"));
+    expect(state.finishOrder).toEqual(["red", "blue", "yellow"]);
+    expect(state.winner).toBe("red");
+    expect(state.message).toBe("Red wins!");
+    expect(gameReducer(state, roll(6))).toBe(state);
+  });
+
+  it("does not keep a finished player on turn after a 6", () => {
+    const state = play(
+      placeTokens(start(), { "red-4": 51 }),
+      roll(6),
+      move("red-4")
+    );
+    expect(state.currentPlayer).toBe("blue");
+  });
+});
+
+describe("team play", () => {
+  const teams = { ...DEFAULT_RULES, teams: true };
+  const allHome = (color: PlayerColor) =>
+    Object.fromEntries([1, 2, 3, 4].map((n) => [`${color}-${n}`, 57]));
+
+  it("ignores teams unless all four seats are filled", () => {
+    const seats = (["red", "yellow"] as const).map((color) => ({ color, label: color }));
+    expect(initialState({ seats, rules: teams }).rules.teams).toBe(false);
+    expect(initialState({ rules: teams }).rules.teams).toBe(true);
+  });
+
+  it("never captures a partner", () => {
+    // yellow-1 at yellow step 36 is track index 10
+    const start = placeTokens(initialState({ rules: teams }), { "red-1": 7, "yellow-1": 36 });
+    const state = gameReducer(start, roll(3));
+    expect(computeValidMoves(state, 3).moves).toEqual([
+      { tokenId: "red-1", nextSteps: 10, willCapture: [] },
+    ]);
+    expect(stepsOf(gameReducer(state, move("red-1")), "yellow-1")).toBe(36);
+  });
+
+  it("lets a finished player move their partner's tokens", () => {
+    const start = {
+      ...placeTokens(initialState({ rules: teams }), { ...allHome("red"), "yellow-1": 10 }),
+      finishOrder: ["red" as const],
+    };
+    const state = gameReducer(gameReducer(start, roll(3)), move("yellow-1"));
+    expect(stepsOf(state, "yellow-1")).toBe(13);
+    expect(state.log[1]).toMatchObject({ player: "red", tokenId: "yellow-1" });
+    expect(state.currentPlayer).toBe("blue");
+    expect(nextPlayerColor("green", state.players, teams)).toBe("red");
+  });
+
+  it("wins once all eight of a side's tokens are home", () => {
+    const start = {
+      ...placeTokens(initialState({ rules: teams }), {
+        ...allHome("red"),
+        ...allHome("yellow"),
+        "yellow-4": 55,
+      }),
+      finishOrder: ["red" as const],
+    };
+    const state = gameReducer(gameReducer(start, roll(2)), move("yellow-4"));
+    expect(state.winner).toBe("red");
+    expect(state.finishOrder).toEqual(["red", "yellow"]);
+    expect(state.message).toBe("Red and Yellow win!");
+  });
+
+  it("keeps playing when one side's player finishes early", () => {
+    const start = placeTokens(initialState({ rules: teams }), { ...allHome("red"), "red-4": 55 });
+    const state = gameReducer(gameReducer(start, roll(2)), move("red-4"));
+    expect(state.winner).toBeNull();
+    expect(state.finishOrder).toEqual(["red"]);
+    expect(state.currentPlayer).toBe("blue");
+  });
+});
+
+describe("undo", () => {
+  const play = (state: GameState, ...actions: Action[]) => actions.reduce(gameReducer, state);
+
+  it("rebuilds from the position the log starts at", () => {
+    const loaded = placeTokens(initialState(), { "red-1": 20, "blue-1": 5 });
+    const back = play(loaded, roll(4), move("red-1"), undo(), undo());
+    expect(back.players).toEqual(loaded.players);
+    expect(back.id).toBe(loaded.id);
+    expect(back.redoLog).toHaveLength(2);
+  });
+
+  it("does nothing when that position isn't known", () => {
+    const played = play({ ...initialState(), base: null }, roll(6), move("red-1"));
+    expect(gameReducer(played, undo())).toBe(played);
+  });
+});
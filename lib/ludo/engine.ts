@@ -0,0 +1,634 @@
+import {
+  FINAL_STEPS_END,
+  FINAL_STEPS_START,
+  PARTNERS,
+  SEAT_ORDER,
+  START_INDICES,
+  TOKENS_PER_PLAYER,
+  TRACK_LENGTH,
+} from "./constants";
+import { randomSeed } from "./dice";
+import { DEFAULT_RULES, canEnter, isSafeCell } from "./rules";
+import type {
+  Action,
+  GameSetup,
+  GameState,
+  LogEntry,
+  MoveOption,
+  OpeningRolls,
+  Player,
+  PlayerColor,
+  Position,
+  RuleSet,
+  Seat,
+  Token,
+  TokenPhase,
+} from "./types";
+
+export function defaultLabel(color: PlayerColor) {
+  return color[0].toUpperCase() + color.slice(1);
+}
+
+export const DEFAULT_SETUP: GameSetup = {
+  seats: SEAT_ORDER.map((color) => ({ color, label: defaultLabel(color) })),
+  firstPlayer: "red",
+  rules: DEFAULT_RULES,
+  diceMode: "seeded",
+};
+
+export function createPlayers(seats: Seat[] = DEFAULT_SETUP.seats): Player[] {
+  return SEAT_ORDER.flatMap((color) => {
+    const seat = seats.find((s) => s.color === color);
+    if (!seat) return [];
+    return [
+      {
+        color,
+        label: seat.label.trim() || defaultLabel(color),
+        startIndex: START_INDICES[color],
+        tokens: Array.from({ length: TOKENS_PER_PLAYER }).map((_, idx) => ({
+          id: `${color}-${idx + 1}`,
+          steps: null,
+        })),
+        captures: 0,
+        bot: seat.bot ?? null,
+        profile: seat.profile ?? null,
+      },
+    ];
+  });
+}
+
+export function newGameId() {
+  return `${Date.now().toString(36)}${Math.floor(Math.random() * 36 ** 6).toString(36)}`;
+}
+
+export function initialState(setup: Partial<GameSetup> = {}): GameState {
+  const { seats, firstPlayer, rules, seed, diceMode } = { ...DEFAULT_SETUP, ...setup };
+  const players = createPlayers(seats);
+  const rollOff = firstPlayer === "roll";
+  const opener =
+    !rollOff && players.some((p) => p.color === firstPlayer)
+      ? firstPlayer
+      : players[0].color;
+  const position: Position = {
+    players,
+    currentPlayer: opener,
+    dice: null,
+    message: rollOff
+      ? `Roll for first turn - ${findPlayer(players, opener).label} first`
+      : "Roll to start",
+    winner: null,
+    finishOrder: [],
+    sixStreak: 0,
+    openingRolls: rollOff
+      ? { contenders: players.map((p) => p.color), rolls: {} }
+      : null,
+  };
+  return {
+    id: newGameId(),
+    ...position,
+    rules: players.length === SEAT_ORDER.length ? rules : { ...rules, teams: false },
+    firstPlayer: rollOff ? "roll" : opener,
+    log: [],
+    redoLog: [],
+    base: position,
+    seed: seed?.trim() || randomSeed(),
+    diceMode,
+  };
+}
+
+/** The setup that would recreate `game` from scratch with the same seats. */
+export function setupOf(game: GameState): GameSetup {
+  return {
+    seats: game.players.map(({ color, label, bot, profile }) => ({ color, label, bot, profile })),
+    firstPlayer: game.firstPlayer,
+    rules: game.rules,
+    seed: game.seed,
+    diceMode: game.diceMode,
+  };
+}
+
+/** The parts of `game` that rolls and moves change. */
+export function positionOf(game: Position): Position {
+  const { players, currentPlayer, dice, message, winner, finishOrder, sixStreak, openingRolls } =
+    game;
+  return { players, currentPlayer, dice, message, winner, finishOrder, sixStreak, openingRolls };
+}
+
+/** `game` as it stood before its first log entry, or null when that isn't known. */
+export function logStart(game: GameState): GameState | null {
+  return game.base && { ...game, ...game.base, log: [], redoLog: [] };
+}
+
+/**
+ * `game` with tokens set by hand to `positions` (token id to steps, null for
+ * the yard). The log starts over from the new position.
+ */
+export function placeTokens(
+  game: GameState,
+  positions: Partial<Record<string, number | null>>
+): GameState {
+  const placed = {
+    ...game,
+    players: game.players.map((p) => ({
+      ...p,
+      tokens: p.tokens.map((t) =>
+        t.id in positions ? { ...t, steps: positions[t.id] ?? null } : t
+      ),
+    })),
+    log: [],
+    redoLog: [],
+  };
+  return { ...placed, base: positionOf(placed) };
+}
+
+export function clampSteps(steps: number | null) {
+  if (steps === null) return null;
+  if (steps < 0) return 0;
+  if (steps > FINAL_STEPS_END) return FINAL_STEPS_END;
+  return steps;
+}
+
+export function tokenPhase(steps: number | null, startIndex: number): TokenPhase {
+  if (steps === null) return { phase: "home" };
+  if (steps >= FINAL_STEPS_END) return { phase: "done" };
+  if (steps >= FINAL_STEPS_START) {
+    return { phase: "final", finalIndex: steps - FINAL_STEPS_START };
+  }
+  const trackIndex = (startIndex + steps) % TRACK_LENGTH;
+  return { phase: "track", trackIndex };
+}
+
+export function findPlayer(players: Player[], color: PlayerColor) {
+  return players.find((p) => p.color === color)!;
+}
+
+export function buildTrackOccupancy(players: Player[]) {
+  const map = new Map<number, (Token & { color: PlayerColor })[]>();
+  players.forEach((player) => {
+    player.tokens.forEach((token) => {
+      const info = tokenPhase(token.steps, player.startIndex);
+      if (info.phase === "track") {
+        const current = map.get(info.trackIndex) ?? [];
+        current.push({ ...token, color: player.color });
+        map.set(info.trackIndex, current);
+      }
+    });
+  });
+  return map;
+}
+
+/** The seated partner of `color` when playing in teams, or null. */
+export function partnerOf(players: Player[], rules: RuleSet, color: PlayerColor) {
+  if (!rules.teams) return null;
+  return players.find((p) => p.color === PARTNERS[color]) ?? null;
+}
+
+/** Both colours play for the same side: one seat, or partners in team play. */
+export function sameSide(
+  game: Pick<GameState, "players" | "rules">,
+  a: PlayerColor,
+  b: PlayerColor
+) {
+  return a === b || partnerOf(game.players, game.rules, a)?.color === b;
+}
+
+/**
+ * The player whose tokens the seat on turn moves: their own, or in team
+ * play their partner's once all of their own are home.
+ */
+export function movingPlayer(game: Pick<GameState, "players" | "rules" | "currentPlayer">) {
+  const player = findPlayer(game.players, game.currentPlayer);
+  const partner = partnerOf(game.players, game.rules, player.color);
+  return partner && hasFinished(player) && !hasFinished(partner) ? partner : player;
+}
+
+/**
+ * The colour holding a blockade on `trackIndex`, if any. Only opponents of
+ * `mover` count; a side's own blockades never get in its way.
+ */
+function blockadeAt(
+  occupancy: ReturnType<typeof buildTrackOccupancy>,
+  trackIndex: number,
+  friendly: (color: PlayerColor) => boolean
+): PlayerColor | null {
+  const counts = new Map<PlayerColor, number>();
+  (occupancy.get(trackIndex) ?? []).forEach((o) => {
+    counts.set(o.color, (counts.get(o.color) ?? 0) + 1);
+  });
+  for (const [color, count] of counts) {
+    if (!friendly(color) && count >= 2) return color;
+  }
+  return null;
+}
+
+export function computeValidMoves(
+  game: GameState,
+  dice: number
+): { moves: MoveOption[]; blocked: MoveOption[]; reason?: string } {
+  if (game.winner) return { moves: [], blocked: [], reason: "Game finished" };
+  if (game.openingRolls) {
+    return { moves: [], blocked: [], reason: "Rolling for first turn" };
+  }
+  const { rules } = game;
+  const player = movingPlayer(game);
+  const friendly = (color: PlayerColor) => sameSide(game, player.color, color);
+  const occupancy = buildTrackOccupancy(game.players);
+  const moves: MoveOption[] = [];
+  const blocked: MoveOption[] = [];
+
+  const captureAt = (candidate: number) => {
+    const nextInfo = tokenPhase(candidate, player.startIndex);
+    if (nextInfo.phase !== "track") return [];
+    const occupants = occupancy.get(nextInfo.trackIndex) ?? [];
+    const opponents = occupants.filter((o) => !friendly(o.color));
+    return opponents.length > 0 && !isSafeCell(rules, nextInfo.trackIndex)
+      ? opponents.map((o) => o.id)
+      : [];
+  };
+
+  const blockadeOnPath = (path: number[]): MoveOption["blocked"] => {
+    if (!rules.blockades) return undefined;
+    for (const [idx, steps] of path.entries()) {
+      const info = tokenPhase(steps, player.startIndex);
+      if (info.phase !== "track") continue;
+      const color = blockadeAt(occupancy, info.trackIndex, friendly);
+      if (!color) continue;
+      const landing = idx === path.length - 1;
+      return {
+        trackIndex: info.trackIndex,
+        color,
+        reason: landing
+          ? `${findPlayer(game.players, color).label} blockade on the landing cell`
+          : `${findPlayer(game.players, color).label} blockade in the way`,
+      };
+    }
+    return undefined;
+  };
+
+  const consider = (tokenId: string, path: number[]) => {
+    const nextSteps = path[path.length - 1];
+    const blockedBy = blockadeOnPath(path);
+    if (blockedBy) {
+      blocked.push({ tokenId, nextSteps, willCapture: [], blocked: blockedBy });
+      return;
+    }
+    moves.push({ tokenId, nextSteps, willCapture: captureAt(nextSteps) });
+  };
+
+  player.tokens.forEach((token) => {
+    const info = tokenPhase(token.steps, player.startIndex);
+    if (info.phase === "home") {
+      if (canEnter(rules, dice)) consider(token.id, [0]);
+      return;
+    }
+    if (info.phase === "done" || token.steps === null) return;
+
+    const path = pathSteps(rules, player, token.steps, dice);
+    if (path) consider(token.id, path);
+  });
+
+  if (moves.length) return { moves, blocked };
+  return {
+    moves: [],
+    blocked,
+    reason: blocked.length
+      ? "Every move is blocked by a blockade."
+      : dice === 6
+      ? "No piece can enter or move; roll again."
+      : "No valid moves this turn.",
+  };
+}
+
+/**
+ * The step values a token on the board passes through for `dice`, ending
+ * on its landing steps, or null when the ruleset forbids the move.
+ */
+export function pathSteps(
+  rules: RuleSet,
+  player: Player,
+  steps: number,
+  dice: number
+): number[] | null {
+  const lapsAgain =
+    rules.captureBeforeHomeColumn &&
+    player.captures === 0 &&
+    steps < FINAL_STEPS_START;
+  if (!lapsAgain && steps + dice > FINAL_STEPS_END && rules.exactFinish) {
+    return null;
+  }
+  const path: number[] = [];
+  for (let i = 1; i <= dice; i += 1) {
+    let next = steps + i;
+    if (lapsAgain && next >= FINAL_STEPS_START) {
+      // Not yet allowed into the home column: go round for another lap.
+      next -= TRACK_LENGTH;
+    } else if (next > FINAL_STEPS_END) {
+      next = FINAL_STEPS_END - (next - FINAL_STEPS_END);
+    }
+    path.push(next);
+  }
+  return path;
+}
+
+/** Every token of `player` has reached the finish. */
+export function hasFinished(player: Player) {
+  return player.tokens.every((t) => clampSteps(t.steps) === FINAL_STEPS_END);
+}
+
+/** Has tokens of their own to play, or in team play a partner's. */
+function stillPlaying(players: Player[], rules: RuleSet, player: Player) {
+  const partner = partnerOf(players, rules, player.color);
+  return !hasFinished(player) || (!!partner && !hasFinished(partner));
+}
+
+/** The next seat round the board that still has tokens to play. */
+export function nextPlayerColor(
+  current: PlayerColor,
+  players: Player[],
+  rules: RuleSet = DEFAULT_RULES
+) {
+  const idx = players.findIndex((p) => p.color === current);
+  for (let offset = 1; offset < players.length; offset += 1) {
+    const player = players[(idx + offset) % players.length];
+    if (stillPlaying(players, rules, player)) return player.color;
+  }
+  return current;
+}
+
+/** Seated players grouped by side, in seat order; one each without teams. */
+export function sidesOf(game: Pick<GameState, "players" | "rules">): Player[][] {
+  return game.players.reduce<Player[][]>((sides, player) => {
+    const side = sides.find((s) => sameSide(game, s[0].color, player.color));
+    if (side) side.push(player);
+    else sides.push([player]);
+    return sides;
+  }, []);
+}
+
+/** The winning side: the winner, plus their partner in team play. */
+export function winningSide(game: GameState): Player[] {
+  const { winner } = game;
+  return winner ? game.players.filter((p) => sameSide(game, winner, p.color)) : [];
+}
+
+/** "Red wins!", or "Red and Yellow win!" for a team. */
+export function winMessage(side: Player[]) {
+  return `${side.map((p) => p.label).join(" and ")} ${side.length > 1 ? "win" : "wins"}!`;
+}
+
+/** "1st", "2nd", "3rd", "4th". */
+export function ordinal(place: number) {
+  return `${place}${["th", "st", "nd", "rd"][place] ?? "th"}`;
+}
+
+/** The winner, or whoever has moved their tokens furthest in total. */
+export function leaderOf(game: GameState): Player {
+  if (game.winner) return findPlayer(game.players, game.winner);
+  const progress = (p: Player) =>
+    p.tokens.reduce((sum, t) => sum + (t.steps === null ? 0 : t.steps + 1), 0);
+  return game.players.reduce((best, p) => (progress(p) > progress(best) ? p : best));
+}
+
+/** Moves available for the dice currently on the table, if any. */
+export function currentMoves(game: GameState): MoveOption[] {
+  return game.dice ? computeValidMoves(game, game.dice).moves : [];
+}
+
+function applyOpeningRoll(
+  prev: GameState,
+  opening: OpeningRolls,
+  value: number
+): GameState {
+  const label = (color: PlayerColor) => findPlayer(prev.players, color).label;
+  const rolls = { ...opening.rolls, [prev.currentPlayer]: value };
+  const waiting = opening.contenders.find((c) => rolls[c] === undefined);
+  if (waiting) {
+    return {
+      ...prev,
+      currentPlayer: waiting,
+      openingRolls: { ...opening, rolls },
+      message: `${label(prev.currentPlayer)} rolled a ${value} - ${label(waiting)} next`,
+    };
+  }
+
+  const best = Math.max(...opening.contenders.map((c) => rolls[c] ?? 0));
+  const tied = opening.contenders.filter((c) => rolls[c] === best);
+  if (tied.length > 1) {
+    return {
+      ...prev,
+      currentPlayer: tied[0],
+      openingRolls: { contenders: tied, rolls: {} },
+      message: `Tie on ${best} between ${tied.map(label).join(" and ")} - roll again`,
+    };
+  }
+  return {
+    ...prev,
+    currentPlayer: tied[0],
+    openingRolls: null,
+    message: `${label(tied[0])} rolled highest and goes first`,
+  };
+}
+
+function applyRoll(prev: GameState, value: number): GameState {
+  if (prev.winner || prev.dice) return prev;
+  if (!Number.isInteger(value) || value < 1 || value > 6) return prev;
+  const entry: LogEntry = { kind: "roll", player: prev.currentPlayer, dice: value };
+  return { ...resolveRoll(prev, value), log: [...prev.log, entry], redoLog: [] };
+}
+
+function resolveRoll(prev: GameState, value: number): GameState {
+  if (prev.openingRolls) return applyOpeningRoll(prev, prev.openingRolls, value);
+  const label = findPlayer(prev.players, prev.currentPlayer).label;
+  const sixStreak = value === 6 ? prev.sixStreak + 1 : 0;
+  if (prev.rules.threeSixesForfeit && sixStreak >= 3) {
+    return {
+      ...prev,
+      currentPlayer: nextPlayerColor(prev.currentPlayer, prev.players, prev.rules),
+      dice: null,
+      sixStreak: 0,
+      message: `${label} rolled three 6s - turn forfeited`,
+    };
+  }
+  const { moves, reason } = computeValidMoves(prev, value);
+  if (moves.length) {
+    return { ...prev, dice: value, sixStreak, message: `${label} rolled a ${value}` };
+  }
+  if (value === 6) {
+    return { ...prev, dice: null, sixStreak, message: reason ?? "" };
+  }
+  return {
+    ...prev,
+    currentPlayer: nextPlayerColor(prev.currentPlayer, prev.players, prev.rules),
+    dice: null,
+    sixStreak: 0,
+    message: reason ?? "",
+  };
+}
+
+function applyMove(prev: GameState, tokenId: string): GameState {
+  const dice = prev.dice;
+  if (prev.winner || !dice) return prev;
+  const move = computeValidMoves(prev, dice).moves.find((m) => m.tokenId === tokenId);
+  if (!move) return prev;
+  // In team play this can be the partner of the seat on turn.
+  const owner = movingPlayer(prev);
+  const from = owner.tokens.find((t) => t.id === tokenId)!.steps;
+
+  const players = prev.players.map((p) => {
+    if (p.color !== owner.color) return p;
+    return {
+      ...p,
+      tokens: p.tokens.map((t) =>
+        t.id === move.tokenId ? { ...t, steps: move.nextSteps } : t
+      ),
+      captures: p.captures + move.willCapture.length,
+    };
+  });
+
+  const mover = findPlayer(players, prev.currentPlayer);
+  const posInfo = tokenPhase(move.nextSteps, owner.startIndex);
+  let updatedPlayers = players;
+  if (posInfo.phase === "track" && move.willCapture.length) {
+    updatedPlayers = players.map((p) => ({
+      ...p,
+      tokens: p.tokens.map((t) =>
+        move.willCapture.includes(t.id) ? { ...t, steps: null } : t
+      ),
+    }));
+  }
+
+  const captured = posInfo.phase === "track" && move.willCapture.length > 0;
+  const entry: LogEntry = {
+    kind: "move",
+    player: prev.currentPlayer,
+    dice,
+    tokenId,
+    from,
+    to: move.nextSteps,
+    captures: captured ? move.willCapture : [],
+  };
+  const reachedHome = posInfo.phase === "done";
+  const bonus =
+    (captured && prev.rules.bonusRollOnCapture) ||
+    (reachedHome && prev.rules.bonusRollOnHome);
+
+  // Finished players drop out of the rotation. The game ends with the first
+  // of them, when their side is complete in team play, or when only one
+  // player is left if playing to the end.
+  const finished = reachedHome && hasFinished(findPlayer(updatedPlayers, owner.color));
+  let finishOrder = finished ? [...prev.finishOrder, owner.color] : prev.finishOrder;
+  const remaining = updatedPlayers.filter((p) => !finishOrder.includes(p.color));
+  const partner = partnerOf(updatedPlayers, prev.rules, owner.color);
+  const gameOver =
+    finished &&
+    (prev.rules.teams
+      ? !partner || finishOrder.includes(partner.color)
+      : !prev.rules.playToEnd || remaining.length <= 1);
+  if (gameOver && prev.rules.playToEnd && !prev.rules.teams) {
+    finishOrder = [...finishOrder, ...remaining.map((p) => p.color)];
+  }
+  // A side wins together; its first player home takes first place.
+  const winners = !gameOver
+    ? []
+    : prev.rules.teams
+    ? updatedPlayers.filter((p) => sameSide(prev, owner.color, p.color))
+    : [findPlayer(updatedPlayers, finishOrder[0])];
+  const winner = winners.length
+    ? findPlayer(updatedPlayers, finishOrder.find((c) => winners.some((p) => p.color === c))!)
+    : null;
+  const finisher = findPlayer(updatedPlayers, owner.color);
+
+  const stayedOnTurn =
+    (dice === 6 || bonus) && stillPlaying(updatedPlayers, prev.rules, mover);
+  const nextColor = stayedOnTurn
+    ? prev.currentPlayer
+    : nextPlayerColor(prev.currentPlayer, updatedPlayers, prev.rules);
+  const nextLabel = findPlayer(updatedPlayers, nextColor).label;
+
+  return {
+    ...prev,
+    players: updatedPlayers,
+    currentPlayer: winner ? prev.currentPlayer : nextColor,
+    dice: null,
+    winner: winner?.color ?? null,
+    finishOrder,
+    sixStreak: stayedOnTurn ? prev.sixStreak : 0,
+    log: [...prev.log, entry],
+    redoLog: [],
+    message: winner
+      ? winMessage(winners)
+      : finished
+      ? `${finisher.label} finishes ${ordinal(finishOrder.length)} - ${nextLabel} to roll`
+      : dice === 6
+      ? `${mover.label} rolled a 6 - go again`
+      : stayedOnTurn
+      ? `${mover.label} earned a bonus roll`
+      : `${nextLabel} to roll`,
+  };
+}
+
+/** The action that reproduces a logged entry. */
+export function entryAction(entry: LogEntry): Action {
+  return entry.kind === "roll" ? roll(entry.dice) : move(entry.tokenId);
+}
+
+/** Re-runs `entries` through the rules from `start`. */
+export function replayLog(start: GameState, entries: LogEntry[]): GameState {
+  return entries.reduce((game, entry) => gameReducer(game, entryAction(entry)), start);
+}
+
+function applyUndo(prev: GameState): GameState {
+  const start = logStart(prev);
+  if (!start || !prev.log.length) return prev;
+  const undone = prev.log[prev.log.length - 1];
+  const rebuilt = replayLog(start, prev.log.slice(0, -1));
+  return { ...rebuilt, redoLog: [...prev.redoLog, undone] };
+}
+
+function applyRedo(prev: GameState): GameState {
+  if (!prev.redoLog.length) return prev;
+  const entry = prev.redoLog[prev.redoLog.length - 1];
+  const next = gameReducer(prev, entryAction(entry));
+  return { ...next, redoLog: prev.redoLog.slice(0, -1) };
+}
+
+export function roll(value: number): Action {
+  return { type: "roll", value };
+}
+
+export function move(tokenId: string): Action {
+  return { type: "move", tokenId };
+}
+
+export function reset(setup?: Partial<GameSetup>): Action {
+  return { type: "reset", setup };
+}
+
+export function undo(): Action {
+  return { type: "undo" };
+}
+
+export function redo(): Action {
+  return { type: "redo" };
+}
+
+/**
+ * Pure rules reducer. Actions that are not legal for the current state
+ * (rolling twice, moving without a roll, moving a blocked token) are ignored.
+ */
+export function gameReducer(state: GameState, action: Action): GameState {
+  switch (action.type) {
+    case "roll":
+      return applyRoll(state, action.value);
+    case "move":
+      return applyMove(state, action.tokenId);
+    case "reset":
+      return initialState({ ...setupOf(state), ...action.setup });
+    case "undo":
+      return applyUndo(state);
+    case "redo":
+      return applyRedo(state);
+    default:
+      return state;
+  }
+}
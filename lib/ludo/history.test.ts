@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { gameReducer, initialState, logStart, move, redo, replayLog, roll, undo } from "./engine";
+import { describeEntry, replayFrames } from "./history";
+import type { Action, GameState } from "./types";
+
+const play = (state: GameState, ...actions: Action[]) => actions.reduce(gameReducer, state);
+
+describe("turn log", () => {
+  it("records rolls and moves with captures", () => {
+    const start = initialState();
+    const placed: GameState = {
+      ...start,
+      players: start.players.map((p) => ({
+        ...p,
+        tokens: p.tokens.map((t) =>
+          t.id === "red-1" ? { ...t, steps: 7 } : t.id === "blue-1" ? { ...t, steps: 49 } : t
+        ),
+      })),
+    };
+    const state = play(placed, roll(3), move("red-1"));
+    expect(state.log).toEqual([
+      { kind: "roll", player: "red", dice: 3 },
+      {
+        kind: "move",
+        player: "red",
+        dice: 3,
+        tokenId: "red-1",
+        from: 7,
+        to: 10,
+        captures: ["blue-1"],
+      },
+    ]);
+    expect(describeEntry(state.log[1], state.players)).toBe(
+      "Red moved red-1 from step 7 to step 10, capturing blue-1"
+    );
+  });
+
+  it("does not log ignored actions", () => {
+    const state = play(initialState(), move("red-1"), roll(2), roll(4));
+    expect(state.log).toHaveLength(2);
+  });
+
+  it("rebuilds the same game from its log", () => {
+    const state = play(initialState(), roll(6), move("red-1"), roll(4), move("red-1"), roll(2));
+    expect(replayLog(logStart(state)!, state.log)).toEqual(state);
+  });
+});
+
+describe("undo and redo", () => {
+  it("steps back and forward through entries", () => {
+    const played = play(initialState(), roll(6), move("red-1"), roll(3));
+    const back = gameReducer(played, undo());
+    expect(back.log).toHaveLength(2);
+    expect(back.currentPlayer).toBe("red");
+    expect(back.dice).toBeNull();
+
+    const twice = gameReducer(back, undo());
+    expect(twice.dice).toBe(6);
+    expect(twice.players[0].tokens[0].steps).toBeNull();
+
+    const forward = play(twice, redo(), redo());
+    expect(forward.log).toEqual(played.log);
+    expect(forward.players).toEqual(played.players);
+    expect(forward.redoLog).toEqual([]);
+  });
+
+  it("drops the redo stack on a new action", () => {
+    const state = play(initialState(), roll(6), move("red-1"), undo(), move("red-2"));
+    expect(state.redoLog).toEqual([]);
+    expect(gameReducer(state, redo())).toBe(state);
+  });
+
+  it("keeps a chosen first player when rebuilding", () => {
+    const state = play(initialState({ firstPlayer: "yellow" }), roll(2), undo());
+    expect(state.currentPlayer).toBe("yellow");
+  });
+});
+
+describe("replayFrames", () => {
+  it("produces one frame per entry plus the start", () => {
+    const state = play(initialState(), roll(6), move("red-1"), roll(1), move("red-1"));
+    const frames = replayFrames(state);
+    expect(frames).toHaveLength(5);
+    expect(frames[0].log).toEqual([]);
+    expect(frames[4].players).toEqual(state.players);
+  });
+});
@@ -0,0 +1,36 @@
+import { FINAL_STEPS_END, FINAL_STEPS_START } from "./constants";
+import { entryAction, findPlayer, gameReducer, logStart } from "./engine";
+import type { GameState, LogEntry, Player } from "./types";
+
+/**
+ * The board before any entry and after each one, for stepping through a
+ * game. `frames[i]` is the state once `i` log entries have been played.
+ * Empty when the game has no known start to replay from.
+ */
+export function replayFrames(game: GameState): GameState[] {
+  const start = logStart(game);
+  if (!start) return [];
+  const frames = [start];
+  game.log.forEach((entry) => {
+    const last = frames[frames.length - 1];
+    frames.push(gameReducer(last, entryAction(entry)));
+  });
+  return frames;
+}
+
+function describeSteps(steps: number | null) {
+  if (steps === null) return "home";
+  if (steps >= FINAL_STEPS_END) return "the finish";
+  if (steps >= FINAL_STEPS_START) return `home column ${steps - FINAL_STEPS_START + 1}`;
+  return `step ${steps}`;
+}
+
+/** One line of plain text for the history list. */
+export function describeEntry(entry: LogEntry, players: Player[]) {
+  const label = findPlayer(players, entry.player).label;
+  if (entry.kind === "roll") return `${label} rolled a ${entry.dice}`;
+  const captured = entry.captures.length ? `, capturing ${entry.captures.join(", ")}` : "";
+  return `${label} moved ${entry.tokenId} from ${describeSteps(entry.from)} to ${describeSteps(
+    entry.to
+  )}${captured}`;
+}
@@ -0,0 +1,19 @@
+export * from "./types";
+export * from "./constants";
+export * from "./rules";
+export * from "./engine";
+export * from "./dice";
+export * from "./bot";
+export * from "./history";
+export * from "./save";
+export * from "./library";
+export * from "./layout";
+export * from "./animation";
+export * from "./announce";
+export * from "./preview";
+export * from "./cues";
+export * from "./stats";
+export * from "./tutorial";
+export * from "./analysis";
+export * from "./simulate";
+export * from "./chat";
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { SAFE_CELLS, SEAT_ORDER, START_INDICES, TRACK_LENGTH } from "./constants";
+import {
+  type GridCell,
+  GRID_SIZE,
+  circleLayout,
+  crossFinalCells,
+  crossLayout,
+  crossTrackCells,
+  crossYards,
+} from "./layout";
+
+const key = ({ row, col }: GridCell) => `${row},${col}`;
+// King moves: the classic track cuts diagonally round the inner corners.
+const apart = (a: GridCell, b: GridCell) =>
+  Math.max(Math.abs(a.row - b.row), Math.abs(a.col - b.col));
+const inYard = (cell: GridCell, yard: GridCell) =>
+  cell.row >= yard.row && cell.row < yard.row + 6 && cell.col >= yard.col && cell.col < yard.col + 6;
+
+describe("cross layout", () => {
+  const track = crossTrackCells();
+  const finals = crossFinalCells();
+  const yards = crossYards();
+
+  it("lays the 52 track squares as one closed loop inside the grid", () => {
+    expect(track).toHaveLength(TRACK_LENGTH);
+    expect(new Set(track.map(key)).size).toBe(TRACK_LENGTH);
+    track.forEach((cell, idx) => {
+      expect(cell.row).toBeGreaterThanOrEqual(0);
+      expect(cell.col).toBeLessThan(GRID_SIZE);
+      expect(apart(cell, track[(idx + 1) % TRACK_LENGTH])).toBe(1);
+    });
+  });
+
+  it("keeps the track, home columns and yards apart", () => {
+    const used = new Set(track.map(key));
+    SEAT_ORDER.forEach((color) => {
+      expect(finals[color]).toHaveLength(5);
+      finals[color].forEach((cell) => {
+        expect(used.has(key(cell))).toBe(false);
+        used.add(key(cell));
+      });
+    });
+    [...track, ...SEAT_ORDER.flatMap((c) => finals[c])].forEach((cell) => {
+      SEAT_ORDER.forEach((color) => expect(inYard(cell, yards[color])).toBe(false));
+    });
+  });
+
+  it("starts each colour beside its yard and ends its home column at the centre", () => {
+    SEAT_ORDER.forEach((color) => {
+      const start = track[START_INDICES[color]];
+      const yard = yards[color];
+      const touchesYard = [-1, 1].some(
+        (d) =>
+          inYard({ ...start, row: start.row + d }, yard) ||
+          inYard({ ...start, col: start.col + d }, yard)
+      );
+      expect(touchesYard).toBe(true);
+      const lastTrack = track[(START_INDICES[color] + TRACK_LENGTH - 1) % TRACK_LENGTH];
+      const lane = finals[color];
+      expect(apart(lastTrack, lane[0])).toBe(1);
+      const end = lane[lane.length - 1];
+      expect(apart(end, { row: 7, col: 7 })).toBe(2);
+    });
+  });
+
+  it("walks each colour square by square into its home column", () => {
+    // The loop cuts diagonally past the centre square's corners; every other
+    // step, including the turn into the home column, is to a side neighbour.
+    const centreCorners = [6, 8].flatMap((row) => [6, 8].map((col) => key({ row, col })));
+    SEAT_ORDER.forEach((color) => {
+      const lap = Array.from(
+        { length: TRACK_LENGTH },
+        (_, step) => track[(START_INDICES[color] + step) % TRACK_LENGTH]
+      );
+      const path = [...lap, ...finals[color]];
+      path.slice(1).forEach((cell, idx) => {
+        const prev = path[idx];
+        const sideBySide = Math.abs(cell.row - prev.row) + Math.abs(cell.col - prev.col) === 1;
+        const cornerCut =
+          apart(cell, prev) === 1 &&
+          (centreCorners.includes(key({ row: prev.row, col: cell.col })) ||
+            centreCorners.includes(key({ row: cell.row, col: prev.col })));
+        expect(sideBySide || (cornerCut && idx < TRACK_LENGTH - 1)).toBe(true);
+      });
+    });
+  });
+
+  it("puts a safe star eight squares past each start", () => {
+    expect(track[8]).toEqual({ row: 3, col: 6 });
+    SAFE_CELLS.forEach((idx) => expect(track[idx]).toBeDefined());
+  });
+
+  it("gives every colour four yard slots and a finish point", () => {
+    const layout = crossLayout();
+    SEAT_ORDER.forEach((color) => {
+      expect(layout.homeSlots[color]).toHaveLength(4);
+      const { x, y } = layout.finish[color];
+      expect(x > 40 && x < 60 && y > 40 && y < 60).toBe(true);
+    });
+  });
+});
+
+describe("circle layout", () => {
+  it("still maps every place a token can stand", () => {
+    const layout = circleLayout();
+    expect(layout.track).toHaveLength(TRACK_LENGTH);
+    SEAT_ORDER.forEach((color) => {
+      expect(layout.finalLanes[color]).toHaveLength(5);
+      expect(layout.homeSlots[color]).toHaveLength(4);
+    });
+  });
+});
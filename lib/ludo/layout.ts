@@ -0,0 +1,189 @@
+import {
+  FINAL_STEPS_END,
+  FINAL_STEPS_START,
+  SEAT_ORDER,
+  START_INDICES,
+  TOKENS_PER_PLAYER,
+  TRACK_LENGTH,
+} from "./constants";
+import type { PlayerColor } from "./types";
+
+/** Board position as a percentage of the board's width and height. */
+export type Point = { x: number; y: number };
+
+/** A square of the classic board, counted from the top-left corner. */
+export type GridCell = { row: number; col: number };
+
+export type BoardTheme = "cross" | "circle";
+
+/** Where every place a token can stand sits on the board. */
+export type BoardLayout = {
+  theme: BoardTheme;
+  /** Indexed by track index, 0 to TRACK_LENGTH - 1. */
+  track: Point[];
+  /** Indexed by final index (steps - FINAL_STEPS_START). */
+  finalLanes: Record<PlayerColor, Point[]>;
+  /** One slot per token waiting in the yard. */
+  homeSlots: Record<PlayerColor, Point[]>;
+  /** Where finished tokens gather. */
+  finish: Record<PlayerColor, Point>;
+  /** Width of one cell, in percent. */
+  cellSize: number;
+};
+
+export const GRID_SIZE = 15;
+const YARD_SIZE = 6;
+const FINAL_CELLS = FINAL_STEPS_END - FINAL_STEPS_START;
+
+const byColor = <T>(make: (color: PlayerColor, quarterTurns: number) => T) =>
+  Object.fromEntries(SEAT_ORDER.map((color, turns) => [color, make(color, turns)])) as Record<
+    PlayerColor,
+    T
+  >;
+
+/** Turns a cell a quarter clockwise about the board centre, `times` times. */
+function rotateCell({ row, col }: GridCell, times: number): GridCell {
+  let cell = { row, col };
+  for (let i = 0; i < times; i += 1) {
+    cell = { row: cell.col, col: GRID_SIZE - 1 - cell.row };
+  }
+  return cell;
+}
+
+/** Same as rotateCell, for points in grid units rather than whole cells. */
+function rotateGridPoint({ x, y }: Point, times: number): Point {
+  let point = { x, y };
+  for (let i = 0; i < times; i += 1) {
+    point = { x: GRID_SIZE - point.y, y: point.x };
+  }
+  return point;
+}
+
+// Red's yard is top-left and its start cell is the first square of the left
+// arm's top row. From there, one seat's stretch of track runs along that row,
+// up the top arm and to the middle of its end; the other seats are quarter
+// turns. A full lap of 52 squares then ends on the middle of the left arm's
+// end, right in front of Red's home column.
+const RED_STRETCH: GridCell[] = [
+  ...[0, 1, 2, 3, 4, 5].map((col) => ({ row: 6, col })),
+  ...[5, 4, 3, 2, 1, 0].map((row) => ({ row, col: 6 })),
+  { row: 0, col: 7 },
+];
+
+/** The 52 track squares of the 15x15 cross, by track index. */
+export function crossTrackCells(): GridCell[] {
+  const cells: GridCell[] = [];
+  SEAT_ORDER.forEach((color, turns) => {
+    RED_STRETCH.forEach((cell, idx) => {
+      cells[(START_INDICES[color] + idx) % TRACK_LENGTH] = rotateCell(cell, turns);
+    });
+  });
+  return cells;
+}
+
+/** Each colour's home column, running from the arm's end toward the centre. */
+export function crossFinalCells(): Record<PlayerColor, GridCell[]> {
+  return byColor((_color, turns) =>
+    Array.from({ length: FINAL_CELLS }, (_, idx) => rotateCell({ row: 7, col: idx + 1 }, turns))
+  );
+}
+
+/** The top-left cell of each colour's 6x6 yard. */
+export function crossYards(): Record<PlayerColor, GridCell> {
+  return byColor((_color, turns) => {
+    const corner = rotateCell({ row: 0, col: 0 }, turns);
+    // The rotated corner cell is the yard's far corner; step back to its top-left.
+    return {
+      row: corner.row === 0 ? 0 : GRID_SIZE - YARD_SIZE,
+      col: corner.col === 0 ? 0 : GRID_SIZE - YARD_SIZE,
+    };
+  });
+}
+
+/** The triangle of the centre square each colour finishes in, in grid units. */
+export function crossFinishTriangles(): Record<PlayerColor, Point[]> {
+  const red: Point[] = [
+    { x: 6, y: 6 },
+    { x: 6, y: 9 },
+    { x: 7.5, y: 7.5 },
+  ];
+  return byColor((_color, turns) => red.map((p) => rotateGridPoint(p, turns)));
+}
+
+const toPercent = (units: number) => (units / GRID_SIZE) * 100;
+const cellCentre = ({ row, col }: GridCell): Point => ({
+  x: toPercent(col + 0.5),
+  y: toPercent(row + 0.5),
+});
+
+export function crossLayout(): BoardLayout {
+  const finalCells = crossFinalCells();
+  const triangles = crossFinishTriangles();
+  const redSlots: Point[] = [
+    { x: 2, y: 2 },
+    { x: 4, y: 2 },
+    { x: 2, y: 4 },
+    { x: 4, y: 4 },
+  ];
+  const gridPoint = ({ x, y }: Point) => ({ x: toPercent(x), y: toPercent(y) });
+  return {
+    theme: "cross",
+    track: crossTrackCells().map(cellCentre),
+    finalLanes: byColor((color) => finalCells[color].map(cellCentre)),
+    homeSlots: byColor((_color, turns) =>
+      redSlots.slice(0, TOKENS_PER_PLAYER).map((p) => gridPoint(rotateGridPoint(p, turns)))
+    ),
+    finish: byColor((color) => {
+      const corners = triangles[color];
+      return gridPoint({
+        x: corners.reduce((sum, p) => sum + p.x, 0) / corners.length,
+        y: corners.reduce((sum, p) => sum + p.y, 0) / corners.length,
+      });
+    }),
+    cellSize: toPercent(1),
+  };
+}
+
+/** The original ring layout, kept as an alternate theme. */
+export function circleLayout(): BoardLayout {
+  const center = 50;
+  const radius = 42;
+  const track = Array.from({ length: TRACK_LENGTH }, (_, idx) => {
+    const angle = (idx / TRACK_LENGTH) * Math.PI * 2 - Math.PI / 2;
+    return { x: center + radius * Math.cos(angle), y: center + radius * Math.sin(angle) };
+  });
+  const redSlots: Point[] = [
+    { x: 16, y: 16 },
+    { x: 25, y: 16 },
+    { x: 16, y: 25 },
+    { x: 25, y: 25 },
+  ];
+  return {
+    theme: "circle",
+    track,
+    finalLanes: byColor((color) => {
+      const start = track[START_INDICES[color]];
+      return Array.from({ length: FINAL_CELLS }, (_, step) => {
+        const factor = (step + 1) / (FINAL_CELLS + 1);
+        return {
+          x: start.x + (center - start.x) * factor,
+          y: start.y + (center - start.y) * factor,
+        };
+      });
+    }),
+    homeSlots: byColor((_color, turns) =>
+      redSlots.map(({ x, y }) => {
+        // Quarter turns about the centre, in percent this time.
+        let point = { x, y };
+        for (let i = 0; i < turns; i += 1) point = { x: 100 - point.y, y: point.x };
+        return point;
+      })
+    ),
+    finish: byColor(() => ({ x: center, y: center })),
+    cellSize: 4,
+  };
+}
+
+export function boardLayout(theme: BoardTheme): BoardLayout {
+  return theme === "circle" ? circleLayout() : crossLayout();
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { gameReducer, initialState, move, roll } from "./engine";
+import {
+  type StorageLike,
+  adoptLegacySave,
+  createSlot,
+  deleteSlot,
+  duplicateSlot,
+  exportFileName,
+  getActiveSlot,
+  importSlot,
+  listSlots,
+  loadSlot,
+  readSlotRaw,
+  renameSlot,
+  setActiveSlot,
+  writeSlot,
+} from "./library";
+import { SaveError, serializeGame } from "./save";
+
+function memoryStorage(): StorageLike & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => {
+      data.set(key, value);
+    },
+    removeItem: (key) => {
+      data.delete(key);
+    },
+  };
+}
+
+const advanced = () =>
+  gameReducer(gameReducer(initialState({ seed: "lib" }), roll(6)), move("red-1"));
+
+describe("save slots", () => {
+  it("lists games newest first with their leader", () => {
+    const storage = memoryStorage();
+    createSlot(storage, "Old", initialState(), new Date("2026-01-01"));
+    const fresh = createSlot(storage, " Lunch ", advanced(), new Date("2026-03-01"));
+    const slots = listSlots(storage);
+    expect(slots.map((s) => s.name)).toEqual(["Lunch", "Old"]);
+    expect(slots[0]).toMatchObject({
+      id: fresh.id,
+      savedAt: "2026-03-01T00:00:00.000Z",
+      leader: "Red",
+      finished: false,
+      error: null,
+    });
+  });
+
+  it("renames, duplicates and deletes", () => {
+    const storage = memoryStorage();
+    const slot = createSlot(storage, "Team game", advanced());
+    renameSlot(storage, slot.id, "Friday");
+    const copy = duplicateSlot(storage, slot.id);
+    expect(copy.name).toBe("Friday (copy)");
+    const original = loadSlot(storage, slot.id);
+    const duplicate = loadSlot(storage, copy.id);
+    expect(duplicate).toEqual({ ...original, id: duplicate.id });
+    expect(duplicate.id).not.toBe(original.id);
+
+    setActiveSlot(storage, slot.id);
+    deleteSlot(storage, slot.id);
+    expect(listSlots(storage).map((s) => s.name)).toEqual(["Friday (copy)"]);
+    expect(getActiveSlot(storage)).toBeNull();
+    expect(readSlotRaw(storage, slot.id)).toBeNull();
+  });
+
+  it("flags damaged slots instead of failing the whole list", () => {
+    const storage = memoryStorage();
+    const slot = createSlot(storage, "Broken", initialState());
+    storage.setItem(`ludo-save:${slot.id}`, "{oops");
+    const [summary] = listSlots(storage);
+    expect(summary.error).toBeInstanceOf(SaveError);
+    expect(() => loadSlot(storage, slot.id)).toThrow(SaveError);
+  });
+
+  it("keeps writing to the same slot", () => {
+    const storage = memoryStorage();
+    const slot = createSlot(storage, "Game", initialState());
+    writeSlot(storage, slot.id, advanced());
+    expect(loadSlot(storage, slot.id).log).toHaveLength(2);
+    expect(listSlots(storage)).toHaveLength(1);
+  });
+});
+
+describe("import and export", () => {
+  it("imports exported files through validation", () => {
+    const storage = memoryStorage();
+    const game = advanced();
+    const slot = importSlot(storage, "From phone", serializeGame(game));
+    expect(loadSlot(storage, slot.id)).toEqual(game);
+    expect(() => importSlot(storage, "Bad", '{"players": []}')).toThrow(SaveError);
+    expect(listSlots(storage)).toHaveLength(1);
+  });
+
+  it("names export files after the game", () => {
+    expect(exportFileName("Friday Night #2")).toBe("ludo-friday-night-2.json");
+    expect(exportFileName("!!!")).toBe("ludo-game.json");
+  });
+});
+
+describe("adoptLegacySave", () => {
+  it("moves a single-key save into the first slot", () => {
+    const storage = memoryStorage();
+    storage.setItem("ludo-save", serializeGame(advanced()));
+    const meta = adoptLegacySave(storage, "ludo-save", "My game");
+    expect(meta?.name).toBe("My game");
+    expect(getActiveSlot(storage)).toBe(meta?.id);
+    expect(storage.getItem("ludo-save")).toBeNull();
+    expect(adoptLegacySave(storage, "ludo-save", "Again")).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { leaderOf, newGameId } from "./engine";
+import { SaveError, parseSave, serializeGame } from "./save";
+import type { GameState } from "./types";
+
+/** The slice of `localStorage` the library needs, so tests can pass a fake. */
+export type StorageLike = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+export type SlotMeta = { id: string; name: string };
+
+export type SlotSummary = SlotMeta & {
+  savedAt: string | null;
+  leader: string | null;
+  finished: boolean;
+  /** Set when the slot's data fails validation. */
+  error: SaveError | null;
+};
+
+const INDEX_KEY = "ludo-saves";
+const ACTIVE_KEY = "ludo-active-save";
+const slotKey = (id: string) => `ludo-save:${id}`;
+
+function readIndex(storage: StorageLike): SlotMeta[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(INDEX_KEY) ?? "[]");
+    return Array.isArray(parsed)
+      ? parsed.filter((m) => typeof m?.id === "string" && typeof m?.name === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeIndex(storage: StorageLike, index: SlotMeta[]) {
+  storage.setItem(INDEX_KEY, JSON.stringify(index));
+}
+
+function newSlotId() {
+  return `${Date.now().toString(36)}${Math.floor(Math.random() * 36 ** 4).toString(36)}`;
+}
+
+/** Every saved game, most recently played first; damaged ones sort last. */
+export function listSlots(storage: StorageLike): SlotSummary[] {
+  return readIndex(storage)
+    .map((meta) => {
+      const raw = storage.getItem(slotKey(meta.id));
+      try {
+        if (raw === null) throw new SaveError("Save data is missing");
+        const save = parseSave(raw);
+        return {
+          ...meta,
+          savedAt: save.savedAt,
+          leader: leaderOf(save.state).label,
+          finished: !!save.state.winner,
+          error: null,
+        };
+      } catch (error) {
+        if (!(error instanceof SaveError)) throw error;
+        return { ...meta, savedAt: null, leader: null, finished: false, error };
+      }
+    })
+    .sort((a, b) => (b.savedAt ?? "").localeCompare(a.savedAt ?? ""));
+}
+
+/** The raw stored text for a slot, exactly as an export file would hold it. */
+export function readSlotRaw(storage: StorageLike, id: string) {
+  return storage.getItem(slotKey(id));
+}
+
+/** Loads and validates a slot. Throws SaveError when it can't be used. */
+export function loadSlot(storage: StorageLike, id: string): GameState {
+  const raw = readSlotRaw(storage, id);
+  if (raw === null) throw new SaveError("Save data is missing");
+  return parseSave(raw).state;
+}
+
+export function writeSlot(storage: StorageLike, id: string, state: GameState, now = new Date()) {
+  storage.setItem(slotKey(id), serializeGame(state, now));
+}
+
+export function createSlot(
+  storage: StorageLike,
+  name: string,
+  state: GameState,
+  now = new Date()
+): SlotMeta {
+  const meta = { id: newSlotId(), name: name.trim() || "Untitled game" };
+  writeSlot(storage, meta.id, state, now);
+  writeIndex(storage, [...readIndex(storage), meta]);
+  return meta;
+}
+
+export function renameSlot(storage: StorageLike, id: string, name: string) {
+  writeIndex(
+    storage,
+    readIndex(storage).map((m) => (m.id === id ? { ...m, name: name.trim() || m.name } : m))
+  );
+}
+
+export function duplicateSlot(storage: StorageLike, id: string): SlotMeta {
+  const source = readIndex(storage).find((m) => m.id === id);
+  if (!source) throw new SaveError("Save data is missing");
+  // A copy plays on separately, so it counts as a game of its own.
+  const copy = { ...loadSlot(storage, id), id: newGameId() };
+  return createSlot(storage, `${source.name} (copy)`, copy);
+}
+
+export function deleteSlot(storage: StorageLike, id: string) {
+  storage.removeItem(slotKey(id));
+  writeIndex(storage, readIndex(storage).filter((m) => m.id !== id));
+  if (storage.getItem(ACTIVE_KEY) === id) storage.removeItem(ACTIVE_KEY);
+}
+
+export function getActiveSlot(storage: StorageLike): string | null {
+  const id = storage.getItem(ACTIVE_KEY);
+  return id && readIndex(storage).some((m) => m.id === id) ? id : null;
+}
+
+export function setActiveSlot(storage: StorageLike, id: string) {
+  storage.setItem(ACTIVE_KEY, id);
+}
+
+/**
+ * Validates an imported file through the same path as stored saves and
+ * files it as a new slot.
+ */
+export function importSlot(storage: StorageLike, name: string, raw: string): SlotMeta {
+  const { state } = parseSave(raw);
+  return createSlot(storage, name, state);
+}
+
+/**
+ * Moves a save kept under a single pre-library key into its own slot.
+ * Damaged data is still moved so the player can inspect or export it.
+ */
+export function adoptLegacySave(storage: StorageLike, key: string, name: string) {
+  const raw = storage.getItem(key);
+  if (raw === null || readIndex(storage).length) return null;
+  const meta = { id: newSlotId(), name };
+  storage.setItem(slotKey(meta.id), raw);
+  writeIndex(storage, [meta]);
+  setActiveSlot(storage, meta.id);
+  storage.removeItem(key);
+  return meta;
+}
+
+export function exportFileName(name: string) {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `ludo-${slug || "game"}.json`;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { computeValidMoves, gameReducer, initialState, placeTokens, roll } from "./engine";
+import { describeMove, movePreview, threatsTo } from "./preview";
+import { DEFAULT_RULES } from "./rules";
+import type { GameState } from "./types";
+
+const rolled = (dice: number, positions: Record<string, number | null>) =>
+  gameReducer(placeTokens(initialState(), positions), roll(dice));
+
+const option = (state: GameState, tokenId: string) =>
+  computeValidMoves(state, state.dice!).moves.find((m) => m.tokenId === tokenId)!;
+
+describe("movePreview", () => {
+  it("walks the path and notes captures", () => {
+    // blue-1 at blue step 49 is track index 10
+    const state = rolled(3, { "red-1": 7, "blue-1": 49 });
+    expect(movePreview(state, option(state, "red-1"))).toEqual({
+      path: [8, 9, 10],
+      captures: ["blue-1"],
+      threats: [],
+      safe: false,
+    });
+  });
+
+  it("warns when an opponent is within a roll of the destination", () => {
+    // blue-1 at track 16 sits 4 behind red-1's landing on 20
+    const state = rolled(4, { "red-1": 16, "blue-1": 3 });
+    expect(movePreview(state, option(state, "red-1")).threats).toEqual(["blue"]);
+    expect(threatsTo(state, "red", 21)).toEqual([]);
+  });
+
+  it("follows the rival's own move rules", () => {
+    // blue-1 at track 16 has to pass red's pair on 18 to reach 20.
+    const paired = { "red-1": 20, "red-2": 18, "red-3": 18, "blue-1": 3 };
+    expect(threatsTo(placeTokens(initialState(), paired), "red", 20)).toEqual(["blue"]);
+    const blockades = initialState({ rules: { ...DEFAULT_RULES, blockades: true } });
+    expect(threatsTo(placeTokens(blockades, paired), "red", 20)).toEqual([]);
+
+    // green-1 at track 35 turns into its home column after 38.
+    const green = placeTokens(initialState(), { "green-1": 48 });
+    expect(threatsTo(green, "red", 37)).toEqual(["green"]);
+    expect(threatsTo(green, "red", 40)).toEqual([]);
+
+    // Without safe stars, a 6 brings a yard token out onto its start cell.
+    const open = initialState({ rules: { ...DEFAULT_RULES, safeStars: false } });
+    expect(threatsTo(open, "red", 13)).toEqual(["blue"]);
+  });
+});
+
+describe("describeMove", () => {
+  it("uses plain words", () => {
+    const entering = rolled(6, {});
+    expect(describeMove(entering, option(entering, "red-1"))).toBe("enter board");
+
+    const star = rolled(4, { "red-1": 4 });
+    expect(describeMove(star, option(star, "red-1"))).toBe("move 4 to safe star");
+
+    const column = rolled(3, { "red-1": 50 });
+    expect(describeMove(column, option(column, "red-1"))).toBe("reach home column");
+
+    const finish = rolled(2, { "red-1": 55 });
+    expect(describeMove(finish, option(finish, "red-1"))).toBe("move 2 to finish");
+
+    const capture = rolled(3, { "red-1": 7, "blue-1": 49 });
+    expect(describeMove(capture, option(capture, "red-1"))).toBe(
+      "move 3 and capture Blue token 1"
+    );
+  });
+});
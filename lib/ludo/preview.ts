@@ -0,0 +1,104 @@
+import { tokenName } from "./announce";
+import { FINAL_STEPS_END, FINAL_STEPS_START, TRACK_LENGTH } from "./constants";
+import {
+  computeValidMoves,
+  gameReducer,
+  move,
+  movingPlayer,
+  pathSteps,
+  sameSide,
+  tokenPhase,
+} from "./engine";
+import { isSafeCell } from "./rules";
+import type { GameState, MoveOption, PlayerColor } from "./types";
+
+/**
+ * Whether whoever moves for `opponent` could land on `trackIndex` with their
+ * next roll. Only dice that would carry one of their tokens there are tried;
+ * bots ask this in every rollout.
+ */
+function canReach(game: GameState, opponent: PlayerColor, trackIndex: number) {
+  const theirTurn: GameState = { ...game, currentPlayer: opponent, dice: null, openingRolls: null };
+  const mover = movingPlayer(theirTurn);
+  const candidates = new Set(
+    mover.tokens.flatMap((t) => {
+      const info = tokenPhase(t.steps, mover.startIndex);
+      if (info.phase === "home") {
+        return mover.startIndex === trackIndex ? game.rules.entryRolls : [];
+      }
+      if (info.phase !== "track") return [];
+      return [(trackIndex - info.trackIndex + TRACK_LENGTH) % TRACK_LENGTH];
+    })
+  );
+  return [...candidates].some(
+    (dice) =>
+      dice >= 1 &&
+      dice <= 6 &&
+      computeValidMoves(theirTurn, dice).moves.some((m) => {
+        const landing = tokenPhase(m.nextSteps, mover.startIndex);
+        return landing.phase === "track" && landing.trackIndex === trackIndex;
+      })
+  );
+}
+
+/**
+ * Opponents who could land on `trackIndex` with their next roll, by the
+ * same rules as their real move: blockades stop them, tokens turning into
+ * their home column pass it by and tokens leaving the yard can reach it.
+ */
+export function threatsTo(game: GameState, color: PlayerColor, trackIndex: number) {
+  if (isSafeCell(game.rules, trackIndex)) return [];
+  return game.players
+    .filter(
+      (opponent) =>
+        !sameSide(game, color, opponent.color) && canReach(game, opponent.color, trackIndex)
+    )
+    .map((opponent) => opponent.color);
+}
+
+export type MovePreview = {
+  /** Step values the token passes through, ending on its destination. */
+  path: number[];
+  captures: string[];
+  /** Opponents who could land on the destination with their next roll. */
+  threats: PlayerColor[];
+  /** The destination is a safe star. */
+  safe: boolean;
+};
+
+/** What moving `option` for the dice on the table would do. */
+export function movePreview(game: GameState, option: MoveOption): MovePreview {
+  const player = movingPlayer(game);
+  const from = player.tokens.find((t) => t.id === option.tokenId)?.steps ?? null;
+  const walked = from === null || !game.dice ? null : pathSteps(game.rules, player, from, game.dice);
+  const landing = tokenPhase(option.nextSteps, player.startIndex);
+  const onTrack = landing.phase === "track";
+  return {
+    path: walked ?? [option.nextSteps],
+    captures: option.willCapture,
+    // Judge the danger after the move, so tokens it captures don't count.
+    threats: onTrack
+      ? threatsTo(gameReducer(game, move(option.tokenId)), player.color, landing.trackIndex)
+      : [],
+    safe: onTrack && isSafeCell(game.rules, landing.trackIndex),
+  };
+}
+
+/** The move in plain words, e.g. "enter board" or "move 4 to safe star". */
+export function describeMove(game: GameState, option: MoveOption) {
+  const player = movingPlayer(game);
+  const from = player.tokens.find((t) => t.id === option.tokenId)?.steps ?? null;
+  const preview = movePreview(game, option);
+  const dice = game.dice ?? 0;
+  const captures = preview.captures.length
+    ? ` and capture ${preview.captures.map((id) => tokenName(game.players, id)).join(" and ")}`
+    : "";
+
+  if (from === null) return `enter board${captures}`;
+  if (option.nextSteps >= FINAL_STEPS_END) return `move ${dice} to finish`;
+  if (option.nextSteps >= FINAL_STEPS_START) {
+    return from < FINAL_STEPS_START ? "reach home column" : `move ${dice} up home column`;
+  }
+  if (preview.safe) return `move ${dice} to safe star`;
+  return `move ${dice}${captures}`;
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { computeValidMoves, gameReducer, initialState, move, placeTokens, roll } from "./engine";
+import { DEFAULT_RULES } from "./rules";
+import type { GameState, RuleSet } from "./types";
+
+function game(
+  rules: Partial<RuleSet>,
+  positions: Partial<Record<string, number | null>> = {}
+): GameState {
+  return placeTokens(initialState({ rules: { ...DEFAULT_RULES, ...rules } }), positions);
+}
+
+function stepsOf(state: GameState, tokenId: string) {
+  const token = state.players.flatMap((p) => p.tokens).find((t) => t.id === tokenId);
+  return token?.steps;
+}
+
+describe("entry rolls", () => {
+  it("allows entering on a 1 when configured", () => {
+    expect(computeValidMoves(game({}), 1).moves).toEqual([]);
+    expect(computeValidMoves(game({ entryRolls: [1, 6] }), 1).moves).toHaveLength(4);
+  });
+
+  it("does not grant an extra turn for entering on a 1", () => {
+    let state = gameReducer(game({ entryRolls: [1, 6] }), roll(1));
+    state = gameReducer(state, move("red-1"));
+    expect(stepsOf(state, "red-1")).toBe(0);
+    expect(state.currentPlayer).toBe("blue");
+  });
+});
+
+describe("three consecutive sixes", () => {
+  const rollAndMove = (state: GameState) =>
+    gameReducer(gameReducer(state, roll(6)), move("red-1"));
+
+  it("forfeits the turn on the third 6", () => {
+    let state = game({ threeSixesForfeit: true }, { "red-1": 10 });
+    state = rollAndMove(rollAndMove(state));
+    expect(state.sixStreak).toBe(2);
+    state = gameReducer(state, roll(6));
+    expect(state.currentPlayer).toBe("blue");
+    expect(state.dice).toBeNull();
+    expect(state.sixStreak).toBe(0);
+    expect(stepsOf(state, "red-1")).toBe(22);
+  });
+
+  it("keeps rolling sixes when the rule is off", () => {
+    let state = game({}, { "red-1": 10 });
+    state = rollAndMove(rollAndMove(state));
+    state = gameReducer(state, roll(6));
+    expect(state.currentPlayer).toBe("red");
+    expect(state.dice).toBe(6);
+  });
+});
+
+describe("bonus rolls", () => {
+  it("grants a roll after a capture", () => {
+    const positions = { "red-1": 7, "blue-1": 49 };
+    let state = gameReducer(game({ bonusRollOnCapture: true }, positions), roll(3));
+    state = gameReducer(state, move("red-1"));
+    expect(state.currentPlayer).toBe("red");
+    expect(state.message).toBe("Red earned a bonus roll");
+
+    state = gameReducer(gameReducer(game({}, positions), roll(3)), move("red-1"));
+    expect(state.currentPlayer).toBe("blue");
+  });
+
+  it("grants a roll after reaching home", () => {
+    const positions = { "red-1": 54 };
+    let state = gameReducer(game({ bonusRollOnHome: true }, positions), roll(3));
+    state = gameReducer(state, move("red-1"));
+    expect(stepsOf(state, "red-1")).toBe(57);
+    expect(state.currentPlayer).toBe("red");
+  });
+});
+
+describe("finishing", () => {
+  it("bounces back off the finish without the exact-roll rule", () => {
+    const state = game({ exactFinish: false }, { "red-1": 55 });
+    expect(computeValidMoves(state, 4).moves[0].nextSteps).toBe(55);
+    expect(computeValidMoves(state, 6).moves[0].nextSteps).toBe(53);
+  });
+});
+
+describe("capture before home column", () => {
+  it("sends tokens round again until the player has captured", () => {
+    const state = game({ captureBeforeHomeColumn: true }, { "red-1": 50 });
+    expect(computeValidMoves(state, 4).moves[0].nextSteps).toBe(2);
+
+    const blooded = {
+      ...state,
+      players: state.players.map((p) =>
+        p.color === "red" ? { ...p, captures: 1 } : p
+      ),
+    };
+    expect(computeValidMoves(blooded, 4).moves[0].nextSteps).toBe(54);
+  });
+
+  it("counts captures made by the mover", () => {
+    let state = game({ captureBeforeHomeColumn: true }, { "red-1": 7, "blue-1": 49 });
+    state = gameReducer(gameReducer(state, roll(3)), move("red-1"));
+    expect(state.players.find((p) => p.color === "red")?.captures).toBe(1);
+  });
+});
+
+describe("safe stars", () => {
+  it("allows captures on star cells when stars are disabled", () => {
+    const positions = { "red-1": 5, "blue-1": 47 };
+    expect(computeValidMoves(game({}, positions), 3).moves[0].willCapture).toEqual([]);
+    expect(
+      computeValidMoves(game({ safeStars: false }, positions), 3).moves[0].willCapture
+    ).toEqual(["blue-1"]);
+  });
+});
+
+describe("reset", () => {
+  it("keeps the current rules unless new ones are given", () => {
+    const state = game({ exactFinish: false });
+    expect(gameReducer(state, { type: "reset" }).rules.exactFinish).toBe(false);
+    expect(
+      gameReducer(state, { type: "reset", setup: { rules: DEFAULT_RULES } }).rules
+    ).toEqual(DEFAULT_RULES);
+  });
+});
+
+describe("blockades", () => {
+  // blue steps 49 => track (13 + 49) % 52 = 10
+  const pair = { "blue-1": 49, "blue-2": 49 };
+
+  it("stops rivals landing on or passing a same-colour pair", () => {
+    const state = game({ blockades: true }, { ...pair, "red-1": 7 });
+    const landing = computeValidMoves(state, 3);
+    expect(landing.moves).toEqual([]);
+    expect(landing.blocked).toEqual([
+      {
+        tokenId: "red-1",
+        nextSteps: 10,
+        willCapture: [],
+        blocked: {
+          trackIndex: 10,
+          color: "blue",
+          reason: "Blue blockade on the landing cell",
+        },
+      },
+    ]);
+    expect(computeValidMoves(state, 5).blocked[0].blocked?.reason).toBe(
+      "Blue blockade in the way"
+    );
+    expect(computeValidMoves(state, 2).moves[0].nextSteps).toBe(9);
+  });
+
+  it("passes the turn when every move is blocked", () => {
+    const state = gameReducer(game({ blockades: true }, { ...pair, "red-1": 7 }), roll(3));
+    expect(state.currentPlayer).toBe("blue");
+    expect(state.message).toBe("Every move is blocked by a blockade.");
+  });
+
+  it("lets a player pass their own blockade", () => {
+    const state = game({ blockades: true }, { "red-1": 5, "red-2": 7, "red-3": 7 });
+    const option = computeValidMoves(state, 4).moves.find((m) => m.tokenId === "red-1");
+    expect(option?.nextSteps).toBe(9);
+  });
+
+  it("captures a pair when blockades are off", () => {
+    const state = game({}, { ...pair, "red-1": 7 });
+    expect(computeValidMoves(state, 3).moves[0].willCapture).toEqual(["blue-1", "blue-2"]);
+  });
+});
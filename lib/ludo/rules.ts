@@ -0,0 +1,24 @@
+import { SAFE_CELLS } from "./constants";
+import type { RuleSet } from "./types";
+
+/** The rules the board has always played by. */
+export const DEFAULT_RULES: RuleSet = {
+  entryRolls: [6],
+  threeSixesForfeit: false,
+  bonusRollOnCapture: false,
+  bonusRollOnHome: false,
+  exactFinish: true,
+  captureBeforeHomeColumn: false,
+  safeStars: true,
+  blockades: false,
+  playToEnd: false,
+  teams: false,
+};
+
+export function isSafeCell(rules: RuleSet, trackIndex: number) {
+  return rules.safeStars && SAFE_CELLS.has(trackIndex);
+}
+
+export function canEnter(rules: RuleSet, dice: number) {
+  return rules.entryRolls.includes(dice);
+}
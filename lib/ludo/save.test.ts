@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import { gameReducer, initialState, move, roll, undo } from "./engine";
+import { DEFAULT_RULES } from "./rules";
+import { SAVE_VERSION, SaveError, parseSave, serializeGame } from "./save";
+import type { GameState, LogEntry, PlayerColor } from "./types";
+
+function errorOf(raw: string) {
+  try {
+    parseSave(raw);
+  } catch (error) {
+    if (error instanceof SaveError) return error;
+    throw error;
+  }
+  throw new Error("expected parseSave to throw");
+}
+
+const tamper = (mutate: (state: GameState) => void) => {
+  const state = structuredClone(initialState({ seed: "tamper" }));
+  mutate(state);
+  return serializeGame(state);
+};
+
+// What the first release wrote under "ludo-state-v1".
+const v1Save = {
+  players: (["red", "blue", "yellow", "green"] as const).map((color, idx) => ({
+    color,
+    label: color[0].toUpperCase() + color.slice(1),
+    startIndex: idx * 13,
+    tokens: [1, 2, 3, 4].map((n) => ({ id: `${color}-${n}`, steps: n === 1 ? 12 : null })),
+  })),
+  currentPlayer: "blue",
+  dice: null,
+  message: "Blue to roll",
+  winner: null,
+};
+
+describe("serializeGame / parseSave", () => {
+  it("round-trips a game inside a versioned envelope", () => {
+    const state = gameReducer(gameReducer(initialState({ seed: "abc" }), roll(6)), move("red-1"));
+    const raw = serializeGame(state, new Date("2026-01-02T03:04:05Z"));
+    const save = parseSave(raw);
+    expect(save.version).toBe(SAVE_VERSION);
+    expect(save.savedAt).toBe("2026-01-02T03:04:05.000Z");
+    expect(save.rules).toEqual(state.rules);
+    expect(save.state).toEqual(state);
+  });
+
+  it("migrates a v1 save", () => {
+    const { state } = parseSave(JSON.stringify(v1Save));
+    expect(state.currentPlayer).toBe("blue");
+    expect(state.players[0].tokens[0].steps).toBe(12);
+    expect(state.players[0].captures).toBe(0);
+    expect(state.players[0].bot).toBeNull();
+    expect(state.rules).toEqual(DEFAULT_RULES);
+    expect(state.log).toEqual([]);
+    expect(state.firstPlayer).toBe("red");
+    expect(state.seed).not.toBe("");
+    expect(state.finishOrder).toEqual([]);
+  });
+
+  it("undoes a migrated v1 game back to the loaded position, not a fresh board", () => {
+    const { state } = parseSave(JSON.stringify(v1Save));
+    const played = gameReducer(gameReducer(state, roll(6)), move("blue-1"));
+    expect(played.players[1].tokens[0].steps).toBe(18);
+    const back = gameReducer(gameReducer(played, undo()), undo());
+    expect(back.players).toEqual(state.players);
+    expect(back.currentPlayer).toBe("blue");
+  });
+
+  it("migrates a v2 save, keeping its winner as the finishing order", () => {
+    const v2 = JSON.parse(serializeGame({ ...initialState({ seed: "v2" }), winner: "blue" }));
+    v2.version = 2;
+    ["playToEnd", "teams"].forEach((rule) => {
+      delete v2.rules[rule];
+      delete v2.state.rules[rule];
+    });
+    delete v2.state.finishOrder;
+    const { state } = parseSave(JSON.stringify(v2));
+    expect(state.rules).toEqual(DEFAULT_RULES);
+    expect(state.finishOrder).toEqual(["blue"]);
+  });
+
+  it("gives a v4 save its seed as id, matching stats recorded before ids", () => {
+    const v4 = JSON.parse(serializeGame(initialState({ seed: "v4" })));
+    v4.version = 4;
+    delete v4.state.id;
+    expect(parseSave(JSON.stringify(v4)).state.id).toBe("v4");
+  });
+
+  it("keeps undo for v5 games whose log replays from a fresh setup", () => {
+    const played = gameReducer(gameReducer(initialState({ seed: "v5" }), roll(6)), move("red-1"));
+    const v5 = JSON.parse(serializeGame(played));
+    v5.version = 5;
+    delete v5.state.base;
+    expect(parseSave(JSON.stringify(v5)).state.base).toEqual(played.base);
+
+    // A v1 game played on has tokens the log never moved.
+    v5.state.players[1].tokens[0].steps = 30;
+    expect(parseSave(JSON.stringify(v5)).state.base).toBeNull();
+  });
+});
+
+describe("damaged saves", () => {
+  it("rejects data that is not JSON", () => {
+    expect(errorOf("{not json").message).toBe("Save data is not valid JSON");
+  });
+
+  it("rejects saves from a newer version", () => {
+    const raw = JSON.stringify({ version: SAVE_VERSION + 1 });
+    expect(errorOf(raw).message).toMatch(/newer version/);
+  });
+
+  it("reports invalid token steps", () => {
+    const raw = tamper((s) => {
+      s.players[1].tokens[2].steps = 99;
+    });
+    expect(errorOf(raw).issues).toEqual(["token blue-3 has invalid steps 99"]);
+  });
+
+  it("reports duplicate token ids", () => {
+    const raw = tamper((s) => {
+      s.players[0].tokens[1].id = "red-1";
+    });
+    expect(errorOf(raw).issues).toContain("token id red-1 is used twice");
+  });
+
+  it("reports token ids that don't match their seat", () => {
+    const raw = tamper((s) => {
+      s.players[1].tokens[3].id = "blue-9";
+      s.players[2].tokens[0].id = "blue-5";
+    });
+    expect(errorOf(raw).issues).toEqual([
+      "token blue-9 should be blue-4",
+      "token blue-5 should be yellow-1",
+    ]);
+  });
+
+  it("reports a start square that isn't the seat's", () => {
+    const raw = tamper((s) => {
+      s.players[2].startIndex = 13;
+    });
+    expect(errorOf(raw).issues).toEqual(["players[2].startIndex must be 26 for yellow"]);
+  });
+
+  it("reports an unknown current player", () => {
+    const raw = JSON.stringify({ ...v1Save, currentPlayer: "purple" });
+    expect(errorOf(raw).issues).toEqual(["currentPlayer purple is not seated"]);
+  });
+
+  it("reports broken rules", () => {
+    const raw = tamper((s) => {
+      (s.rules as unknown as Record<string, unknown>).safeStars = "yes";
+    });
+    expect(errorOf(raw).issues).toContain("rules.safeStars must be true or false");
+  });
+
+  it("reports team play without a full table", () => {
+    const raw = tamper((s) => {
+      s.players = s.players.filter((p) => p.color === "red" || p.color === "yellow");
+      s.rules.teams = true;
+    });
+    expect(errorOf(raw).issues).toEqual(["rules.teams needs all four seats"]);
+  });
+
+  it("reports log entries that don't fit the game", () => {
+    const raw = tamper((s) => {
+      s.log = [
+        { kind: "roll", player: "red", dice: 6 },
+        {
+          kind: "move",
+          player: "purple" as PlayerColor,
+          dice: 9,
+          tokenId: "red-7",
+          from: -1,
+          to: 80,
+          captures: ["nobody-1"],
+        },
+      ];
+      s.redoLog = [{ kind: "jump" } as unknown as LogEntry];
+    });
+    expect(errorOf(raw).issues).toEqual([
+      "log[1] player purple is not seated",
+      "log[1] dice 9 is not a die face",
+      "log[1] moves unknown token red-7",
+      "log[1] has invalid from -1",
+      "log[1] has invalid to 80",
+      "log[1] captures must list known tokens",
+      "redoLog[0] is not a roll or a move",
+    ]);
+  });
+
+  it("reports bad players, roll-off and turn fields", () => {
+    const raw = tamper((s) => {
+      const loose = s as unknown as Record<string, unknown>;
+      (s.players[0] as unknown as Record<string, unknown>).bot = "genius";
+      s.players[1].captures = -2;
+      s.openingRolls = { contenders: ["red", "purple" as PlayerColor], rolls: { red: 0 } };
+      loose.sixStreak = "two";
+      loose.firstPlayer = "purple";
+      loose.diceMode = "loaded";
+    });
+    expect(errorOf(raw).issues).toEqual([
+      "players[0].bot must be null or a bot level",
+      "players[1].captures must be a count",
+      "sixStreak must be a count",
+      "openingRolls.contenders must list seated colours",
+      "openingRolls.rolls must map seated colours to die faces",
+      "firstPlayer purple is not seated",
+      "diceMode loaded is unknown",
+    ]);
+  });
+
+  it("reports a base that doesn't fit the game", () => {
+    const raw = tamper((s) => {
+      s.base = { ...s.base!, currentPlayer: "purple" as PlayerColor };
+    });
+    expect(errorOf(raw).issues).toEqual(["base currentPlayer purple is not seated"]);
+    const reseated = tamper((s) => {
+      s.base = { ...s.base!, players: s.players.slice(0, 3) };
+    });
+    expect(errorOf(reseated).issues).toEqual(["base seats different players"]);
+  });
+
+  it("accepts the log and roll-off of a game in progress", () => {
+    let state = initialState({ seed: "live", firstPlayer: "roll" });
+    for (let i = 0; i < 40 && !state.winner; i += 1) {
+      state = gameReducer(state, roll(1 + (i % 6)));
+      const option = state.players.flatMap((p) => p.tokens).find((t) => t.steps !== null);
+      if (option) state = gameReducer(state, move(option.id));
+    }
+    state = gameReducer(state, { type: "undo" });
+    expect(state.redoLog).toHaveLength(1);
+    expect(parseSave(serializeGame(state)).state).toEqual(state);
+  });
+});
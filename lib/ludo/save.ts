@@ -0,0 +1,377 @@
+import { FINAL_STEPS_END, SEAT_ORDER, START_INDICES, TOKENS_PER_PLAYER } from "./constants";
+import { randomSeed } from "./dice";
+import { initialState, positionOf, replayLog, setupOf } from "./engine";
+import { DEFAULT_RULES } from "./rules";
+import type { BotLevel, DiceMode, GameState, PlayerColor, Position, RuleSet } from "./types";
+
+export const SAVE_VERSION = 6;
+
+/** What goes to storage: the game plus enough metadata to list it unopened. */
+export type SaveEnvelope = {
+  version: number;
+  savedAt: string;
+  rules: RuleSet;
+  state: GameState;
+};
+
+/** A save that could not be read; `issues` lists every problem found. */
+export class SaveError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[] = []
+  ) {
+    super(message);
+    this.name = "SaveError";
+  }
+}
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const BOT_LEVELS: BotLevel[] = ["easy", "normal", "hard"];
+const DICE_MODES: DiceMode[] = ["seeded", "manual"];
+
+const isDieFace = (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 6;
+
+const isSteps = (value: unknown) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= FINAL_STEPS_END;
+
+/**
+ * v1 stored the bare GameState with no envelope. Fields added since then get
+ * the defaults a fresh game would have. Its history is lost, so the log
+ * starts empty and later becomes the base undo rebuilds from.
+ */
+function migrateV1(data: Raw): Raw {
+  const players = Array.isArray(data.players) ? data.players : [];
+  const state: Raw = {
+    sixStreak: 0,
+    openingRolls: null,
+    log: [],
+    redoLog: [],
+    seed: randomSeed(),
+    diceMode: "seeded",
+    ...data,
+    players: players.map((p) =>
+      isObject(p) ? { captures: 0, bot: null, ...p } : p
+    ),
+    rules: { ...DEFAULT_RULES, ...(isObject(data.rules) ? data.rules : {}) },
+  };
+  if (state.firstPlayer === undefined) {
+    state.firstPlayer = isObject(players[0]) ? players[0].color : "red";
+  }
+  return { version: 2, savedAt: new Date(0).toISOString(), rules: state.rules, state };
+}
+
+/** v2 games always stopped at the first finisher, who is the whole order. */
+function migrateV2(data: Raw): Raw {
+  const state = isObject(data.state) ? data.state : {};
+  const rules = { ...(isObject(data.rules) ? data.rules : {}), playToEnd: false };
+  return {
+    ...data,
+    version: 3,
+    rules,
+    state: {
+      ...state,
+      rules: { ...(isObject(state.rules) ? state.rules : {}), playToEnd: false },
+      finishOrder: state.winner ? [state.winner] : [],
+    },
+  };
+}
+
+/** v3 had no team play. */
+function migrateV3(data: Raw): Raw {
+  const state = isObject(data.state) ? data.state : {};
+  return {
+    ...data,
+    version: 4,
+    rules: { ...(isObject(data.rules) ? data.rules : {}), teams: false },
+    state: { ...state, rules: { ...(isObject(state.rules) ? state.rules : {}), teams: false } },
+  };
+}
+
+/**
+ * v4 games had no id of their own. Stats recorded them under their seed, so
+ * the seed becomes the id and those records still match.
+ */
+function migrateV4(data: Raw): Raw {
+  const state = isObject(data.state) ? data.state : {};
+  return { ...data, version: 5, state: { id: state.seed, ...state } };
+}
+
+/** Where a v5 game's log starts, or null when replaying it can't reach the saved board. */
+function v5Base(state: Raw): Position | null {
+  const board = (game: GameState) =>
+    JSON.stringify([game.currentPlayer, game.dice, game.players.map((p) => p.tokens)]);
+  try {
+    const game = state as unknown as GameState;
+    if (!game.log.length) return positionOf(game);
+    const fresh = initialState(setupOf(game));
+    return board(replayLog(fresh, game.log)) === board(game) ? positionOf(fresh) : null;
+  } catch {
+    // Damaged state; validation reports it.
+    return null;
+  }
+}
+
+/**
+ * v5 rebuilt games from a fresh setup on undo, which is wrong for a game
+ * carried on from a v1 save. Those can no longer be undone.
+ */
+function migrateV5(data: Raw): Raw {
+  const state = isObject(data.state) ? data.state : {};
+  return { ...data, version: 6, state: { ...state, base: v5Base(state) } };
+}
+
+/** Each step lifts a save from `version` to `version + 1`. */
+const MIGRATIONS: Record<number, (data: Raw) => Raw> = {
+  1: migrateV1,
+  2: migrateV2,
+  3: migrateV3,
+  4: migrateV4,
+  5: migrateV5,
+};
+
+/** Every problem with `rules` as a RuleSet, each prefixed with `path`. */
+export function validateRules(rules: unknown, path: string): string[] {
+  if (!isObject(rules)) return [`${path} is missing`];
+  const issues: string[] = [];
+  (Object.keys(DEFAULT_RULES) as (keyof RuleSet)[]).forEach((key) => {
+    if (key === "entryRolls") {
+      const rolls = rules.entryRolls;
+      if (
+        !Array.isArray(rolls) ||
+        !rolls.length ||
+        !rolls.every((r) => Number.isInteger(r) && r >= 1 && r <= 6)
+      ) {
+        issues.push(`${path}.entryRolls must list dice values`);
+      }
+    } else if (typeof rules[key] !== "boolean") {
+      issues.push(`${path}.${key} must be true or false`);
+    }
+  });
+  return issues;
+}
+
+function validateOpeningRolls(value: unknown, colors: PlayerColor[]): string[] {
+  if (!isObject(value)) return ["openingRolls must be null or a roll-off"];
+  const issues: string[] = [];
+  const { contenders, rolls } = value;
+  if (
+    !Array.isArray(contenders) ||
+    !contenders.length ||
+    !contenders.every((c) => colors.includes(c))
+  ) {
+    issues.push("openingRolls.contenders must list seated colours");
+  }
+  if (
+    !isObject(rolls) ||
+    !Object.entries(rolls).every(
+      ([color, dice]) => colors.includes(color as PlayerColor) && isDieFace(dice)
+    )
+  ) {
+    issues.push("openingRolls.rolls must map seated colours to die faces");
+  }
+  return issues;
+}
+
+/** Problems with each turn-log entry; every entry must fit the seated players and tokens. */
+function validateLog(
+  log: unknown,
+  path: string,
+  colors: PlayerColor[],
+  tokenIds: Set<string>
+): string[] {
+  if (!Array.isArray(log)) return [`${path} must be a list`];
+  const issues: string[] = [];
+  log.forEach((entry, idx) => {
+    const at = `${path}[${idx}]`;
+    if (!isObject(entry) || (entry.kind !== "roll" && entry.kind !== "move")) {
+      issues.push(`${at} is not a roll or a move`);
+      return;
+    }
+    if (!colors.includes(entry.player as PlayerColor)) {
+      issues.push(`${at} player ${String(entry.player)} is not seated`);
+    }
+    if (!isDieFace(entry.dice)) issues.push(`${at} dice ${String(entry.dice)} is not a die face`);
+    if (entry.kind === "roll") return;
+    if (typeof entry.tokenId !== "string" || !tokenIds.has(entry.tokenId)) {
+      issues.push(`${at} moves unknown token ${String(entry.tokenId)}`);
+    }
+    if (entry.from !== null && !isSteps(entry.from)) {
+      issues.push(`${at} has invalid from ${String(entry.from)}`);
+    }
+    if (!isSteps(entry.to)) issues.push(`${at} has invalid to ${String(entry.to)}`);
+    if (
+      !Array.isArray(entry.captures) ||
+      !entry.captures.every((id) => typeof id === "string" && tokenIds.has(id))
+    ) {
+      issues.push(`${at} captures must list known tokens`);
+    }
+  });
+  return issues;
+}
+
+/** Every structural problem with `value` as a GameState; empty when valid. */
+export function validateState(value: unknown): string[] {
+  if (!isObject(value)) return ["state is not an object"];
+  const issues: string[] = [];
+  const colors: PlayerColor[] = [];
+  const tokenIds = new Set<string>();
+
+  if (!Array.isArray(value.players) || value.players.length < 1) {
+    issues.push("players must be a non-empty list");
+  } else {
+    value.players.forEach((player, idx) => {
+      if (!isObject(player)) {
+        issues.push(`players[${idx}] is not an object`);
+        return;
+      }
+      const color = player.color as PlayerColor;
+      if (!SEAT_ORDER.includes(color)) {
+        issues.push(`players[${idx}] has unknown colour ${String(player.color)}`);
+      } else if (colors.includes(color)) {
+        issues.push(`colour ${color} is seated twice`);
+      } else {
+        colors.push(color);
+      }
+      if (typeof player.label !== "string") issues.push(`players[${idx}].label is missing`);
+      if (player.profile != null && typeof player.profile !== "string") {
+        issues.push(`players[${idx}].profile must be a profile id`);
+      }
+      if (!Number.isInteger(player.startIndex)) {
+        issues.push(`players[${idx}].startIndex is missing`);
+      } else if (SEAT_ORDER.includes(color) && player.startIndex !== START_INDICES[color]) {
+        issues.push(`players[${idx}].startIndex must be ${START_INDICES[color]} for ${color}`);
+      }
+      if (player.bot !== null && !BOT_LEVELS.includes(player.bot as BotLevel)) {
+        issues.push(`players[${idx}].bot must be null or a bot level`);
+      }
+      if (!Number.isInteger(player.captures) || (player.captures as number) < 0) {
+        issues.push(`players[${idx}].captures must be a count`);
+      }
+      if (!Array.isArray(player.tokens) || player.tokens.length !== TOKENS_PER_PLAYER) {
+        issues.push(`players[${idx}] must have ${TOKENS_PER_PLAYER} tokens`);
+        return;
+      }
+      player.tokens.forEach((token, tokenIdx) => {
+        const id = isObject(token) ? token.id : undefined;
+        if (typeof id !== "string") {
+          issues.push(`players[${idx}].tokens[${tokenIdx}] has no id`);
+          return;
+        }
+        if (tokenIds.has(id)) issues.push(`token id ${id} is used twice`);
+        tokenIds.add(id);
+        const expected = `${color}-${tokenIdx + 1}`;
+        if (SEAT_ORDER.includes(color) && id !== expected) {
+          issues.push(`token ${id} should be ${expected}`);
+        }
+        const steps = (token as Raw).steps;
+        if (steps !== null && !isSteps(steps)) {
+          issues.push(`token ${id} has invalid steps ${String(steps)}`);
+        }
+      });
+    });
+  }
+
+  if (!colors.includes(value.currentPlayer as PlayerColor)) {
+    issues.push(`currentPlayer ${String(value.currentPlayer)} is not seated`);
+  }
+  if (value.winner !== null && !colors.includes(value.winner as PlayerColor)) {
+    issues.push(`winner ${String(value.winner)} is not seated`);
+  }
+  if (
+    !Array.isArray(value.finishOrder) ||
+    !value.finishOrder.every((c) => colors.includes(c)) ||
+    new Set(value.finishOrder).size !== value.finishOrder.length
+  ) {
+    issues.push("finishOrder must list seated colours once each");
+  }
+  if (value.dice !== null && !isDieFace(value.dice)) {
+    issues.push(`dice ${String(value.dice)} is not a die face`);
+  }
+  if (!Number.isInteger(value.sixStreak) || (value.sixStreak as number) < 0) {
+    issues.push("sixStreak must be a count");
+  }
+  if (value.openingRolls !== null) {
+    issues.push(...validateOpeningRolls(value.openingRolls, colors));
+  }
+  if (value.firstPlayer !== "roll" && !colors.includes(value.firstPlayer as PlayerColor)) {
+    issues.push(`firstPlayer ${String(value.firstPlayer)} is not seated`);
+  }
+  if (typeof value.id !== "string" || !value.id) issues.push("id is missing");
+  if (typeof value.message !== "string") issues.push("message is missing");
+  if (typeof value.seed !== "string" || !value.seed) issues.push("seed is missing");
+  if (!DICE_MODES.includes(value.diceMode as DiceMode)) {
+    issues.push(`diceMode ${String(value.diceMode)} is unknown`);
+  }
+  issues.push(...validateLog(value.log, "log", colors, tokenIds));
+  issues.push(...validateLog(value.redoLog, "redoLog", colors, tokenIds));
+  issues.push(...validateRules(value.rules, "rules"));
+  if (isObject(value.rules) && value.rules.teams === true && colors.length !== SEAT_ORDER.length) {
+    issues.push("rules.teams needs all four seats");
+  }
+  if (!issues.length) issues.push(...validateBase(value, colors));
+  return issues;
+}
+
+/** Problems with the position the log starts from, checked as the game it would rebuild. */
+function validateBase(value: Raw, colors: PlayerColor[]): string[] {
+  const { base } = value;
+  if (base === null) return [];
+  if (!isObject(base)) return ["base must be null or a position"];
+  const start = { ...value, ...base, log: [], redoLog: [], base: null };
+  const issues = validateState(start).map((issue) => `base ${issue}`);
+  const seated = Array.isArray(base.players) && base.players.map((p) => isObject(p) && p.color);
+  if (!issues.length && String(seated) !== String(colors)) {
+    issues.push("base seats different players");
+  }
+  return issues;
+}
+
+export function serializeGame(state: GameState, now = new Date()): string {
+  const envelope: SaveEnvelope = {
+    version: SAVE_VERSION,
+    savedAt: now.toISOString(),
+    rules: state.rules,
+    state,
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Reads any save this app has ever written, migrating it to the current
+ * version. Throws SaveError when the data can't be trusted.
+ */
+export function parseSave(raw: string): SaveEnvelope {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new SaveError("Save data is not valid JSON");
+  }
+  if (!isObject(data)) throw new SaveError("Save data is not an object");
+
+  let save: Raw = data;
+  let version = typeof save.version === "number" ? save.version : 1;
+  if (version > SAVE_VERSION) {
+    throw new SaveError(`Save is from a newer version (${version}) of the game`);
+  }
+  while (version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new SaveError(`No migration from save version ${version}`);
+    save = migrate(save);
+    version += 1;
+  }
+
+  const issues = [
+    ...(typeof save.savedAt === "string" ? [] : ["savedAt is missing"]),
+    ...validateRules(save.rules, "envelope rules"),
+    ...validateState(save.state),
+  ];
+  if (issues.length) throw new SaveError("Save data is damaged", issues);
+  return save as SaveEnvelope;
+}
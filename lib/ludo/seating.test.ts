@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  gameReducer,
+  initialState,
+  move,
+  nextPlayerColor,
+  reset,
+  roll,
+} from "./engine";
+import type { GameState } from "./types";
+
+const seats = (...colors: GameState["currentPlayer"][]) =>
+  colors.map((color) => ({ color, label: "" }));
+
+describe("seating", () => {
+  it("seats only the chosen colours in board order", () => {
+    const state = initialState({
+      seats: [
+        { color: "green", label: "Gus" },
+        { color: "blue", label: "  " },
+      ],
+    });
+    expect(state.players.map((p) => [p.color, p.label, p.startIndex])).toEqual([
+      ["blue", "Blue", 13],
+      ["green", "Gus", 39],
+    ]);
+    expect(state.currentPlayer).toBe("blue");
+  });
+
+  it("skips empty seats in the turn rotation", () => {
+    const { players } = initialState({ seats: seats("red", "yellow") });
+    expect(nextPlayerColor("red", players)).toBe("yellow");
+    expect(nextPlayerColor("yellow", players)).toBe("red");
+
+    const state = gameReducer(initialState({ seats: seats("red", "yellow") }), roll(2));
+    expect(state.currentPlayer).toBe("yellow");
+  });
+
+  it("starts with the chosen first player", () => {
+    const state = initialState({ seats: seats("red", "blue", "green"), firstPlayer: "green" });
+    expect(state.currentPlayer).toBe("green");
+    expect(gameReducer(state, roll(1)).currentPlayer).toBe("red");
+  });
+
+  it("keeps the seating on reset", () => {
+    let state = initialState({ seats: [{ color: "yellow", label: "Yas" }, ...seats("blue")] });
+    state = gameReducer(gameReducer(state, roll(6)), move("blue-1"));
+    const fresh = gameReducer(state, reset());
+    expect(fresh.players.map((p) => p.label)).toEqual(["Blue", "Yas"]);
+    expect(fresh.players[0].tokens.every((t) => t.steps === null)).toBe(true);
+  });
+});
+
+describe("rolling for first turn", () => {
+  it("gives the first turn to the highest roll", () => {
+    let state = initialState({ seats: seats("red", "blue", "green"), firstPlayer: "roll" });
+    expect(state.openingRolls).not.toBeNull();
+    state = gameReducer(state, roll(3));
+    expect(state.currentPlayer).toBe("blue");
+    state = gameReducer(state, roll(5));
+    state = gameReducer(state, roll(2));
+    expect(state.openingRolls).toBeNull();
+    expect(state.currentPlayer).toBe("blue");
+    expect(state.dice).toBeNull();
+    expect(state.message).toBe("Blue rolled highest and goes first");
+  });
+
+  it("re-rolls ties between the tied players only", () => {
+    let state = initialState({ seats: seats("red", "blue", "green"), firstPlayer: "roll" });
+    state = gameReducer(state, roll(6));
+    state = gameReducer(state, roll(1));
+    state = gameReducer(state, roll(6));
+    expect(state.openingRolls?.contenders).toEqual(["red", "green"]);
+    expect(state.currentPlayer).toBe("red");
+    state = gameReducer(state, roll(2));
+    expect(state.currentPlayer).toBe("green");
+    state = gameReducer(state, roll(4));
+    expect(state.openingRolls).toBeNull();
+    expect(state.currentPlayer).toBe("green");
+  });
+
+  it("does not move tokens during the roll-off", () => {
+    const state = gameReducer(
+      initialState({ seats: seats("red", "blue"), firstPlayer: "roll" }),
+      roll(6)
+    );
+    expect(gameReducer(state, move("red-1"))).toBe(state);
+  });
+});
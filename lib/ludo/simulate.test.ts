@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { gameReducer, initialState, placeTokens, roll } from "./engine";
+import { DEFAULT_RULES } from "./rules";
+import { type SimulationConfig, reportToCsv, simulate, strategyMove } from "./simulate";
+import type { GameState } from "./types";
+
+const config: SimulationConfig = {
+  games: 12,
+  seed: "test",
+  rules: DEFAULT_RULES,
+  seats: [
+    { color: "red", strategy: "greedy" },
+    { color: "yellow", strategy: "random" },
+  ],
+  firstPlayer: "roll",
+};
+
+function placed(positions: Record<string, number>): GameState {
+  const state = initialState({
+    seats: [
+      { color: "red", label: "" },
+      { color: "blue", label: "" },
+    ],
+  });
+  return placeTokens(state, positions);
+}
+
+describe("strategyMove", () => {
+  // blue-1 at blue step 49 sits on track index 10, three ahead of red-1.
+  const game = gameReducer(placed({ "red-1": 7, "red-2": 30, "blue-1": 49 }), roll(3));
+
+  it("has greedy take the capture over a longer run", () => {
+    expect(strategyMove(game, "greedy", Math.random)).toBe("red-1");
+  });
+
+  it("has safe-first skip landings a rival can reach", () => {
+    // Neither landing is in reach of Blue, so the furthest run wins.
+    expect(strategyMove(game, "safe", Math.random)).toBe("red-2");
+    // blue-1 at blue step 15 sits on track index 28, four behind where
+    // red-2 would stop.
+    const exposed = gameReducer(placed({ "red-1": 20, "red-2": 30, "blue-1": 15 }), roll(2));
+    expect(strategyMove(exposed, "safe", Math.random)).toBe("red-1");
+  });
+
+  it("has nothing to move before the roll", () => {
+    expect(strategyMove(placed({}), "random", Math.random)).toBeNull();
+  });
+});
+
+describe("simulate", () => {
+  it("repeats exactly for the same seed", () => {
+    expect(simulate(config)).toEqual(simulate(config));
+  });
+
+  it("credits every finished game to a seat", () => {
+    const report = simulate(config);
+    expect(report.finished + report.unfinished.length).toBe(12);
+    expect(report.seats.reduce((sum, s) => sum + s.wins, 0)).toBe(report.finished);
+    expect(report.seats.map((s) => s.startIndex)).toEqual([0, 26]);
+    expect(report.averageTurns).toBeGreaterThan(0);
+  });
+
+  it("writes off games that hit the turn limit", () => {
+    const report = simulate({ ...config, games: 2, maxTurns: 5 });
+    expect(report.finished).toBe(0);
+    expect(report.unfinished).toEqual(["test-0", "test-1"]);
+    expect(report.averageTurns).toBeNull();
+  });
+
+  it("credits both partners in team play", () => {
+    const report = simulate({
+      ...config,
+      games: 2,
+      rules: { ...DEFAULT_RULES, teams: true },
+      seats: (["red", "blue", "yellow", "green"] as const).map((color) => ({
+        color,
+        strategy: "greedy",
+      })),
+    });
+    const [red, blue, yellow, green] = report.seats.map((s) => s.wins);
+    expect(red).toBe(yellow);
+    expect(blue).toBe(green);
+    expect(red + blue).toBe(report.finished);
+  });
+});
+
+describe("reportToCsv", () => {
+  it("writes a header and one row per seat", () => {
+    const lines = reportToCsv(simulate({ ...config, games: 2 })).trimEnd().split("\n");
+    expect(lines[0]).toBe(
+      "color,strategy,start_index,wins,win_rate,games,finished,unfinished,average_turns,captures_per_game"
+    );
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toMatch(/^red,greedy,0,\d+,[\d.]+,2,/);
+  });
+});
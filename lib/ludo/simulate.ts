@@ -0,0 +1,182 @@
+import { chooseMove } from "./bot";
+import { START_INDICES } from "./constants";
+import { seededRandom, seededRoll } from "./dice";
+import { computeValidMoves, gameReducer, initialState, move, roll, sameSide } from "./engine";
+import { movePreview } from "./preview";
+import type { BotLevel, GameState, MoveOption, PlayerColor, RuleSet } from "./types";
+
+/**
+ * How a simulated seat picks its move: one of the bot levels, or a simple
+ * policy - any legal move, captures then the furthest move, or the furthest
+ * move that doesn't end in reach of a rival.
+ */
+export type Strategy = "random" | "greedy" | "safe" | BotLevel;
+
+export const STRATEGIES: Strategy[] = ["random", "greedy", "safe", "easy", "normal", "hard"];
+
+/** Rolls after which a game is written off as never finishing. */
+export const DEFAULT_MAX_TURNS = 2000;
+
+export type SimulationConfig = {
+  games: number;
+  /** Each game is seeded `${seed}-${index}`, so a run can be repeated exactly. */
+  seed: string;
+  rules: RuleSet;
+  seats: { color: PlayerColor; strategy: Strategy }[];
+  firstPlayer: PlayerColor | "roll";
+  maxTurns?: number;
+};
+
+export type SeatReport = {
+  color: PlayerColor;
+  strategy: Strategy;
+  startIndex: number;
+  /** Games this seat came first in, or was on the winning side of in team play. */
+  wins: number;
+  /** Wins over every game played, unfinished ones included. */
+  winRate: number;
+};
+
+export type SimulationReport = {
+  seed: string;
+  rules: RuleSet;
+  games: number;
+  finished: number;
+  /** Seeds of the games that hit the turn limit, to replay them. */
+  unfinished: string[];
+  /** Rolls per finished game after the roll-off, or null if none finished. */
+  averageTurns: number | null;
+  capturesPerGame: number;
+  seats: SeatReport[];
+};
+
+type Outcome = { winner: PlayerColor | null; turns: number; captures: number };
+
+const furthest = (moves: MoveOption[]) =>
+  moves.reduce((best, m) => (m.nextSteps > best.nextSteps ? m : best));
+
+/** The token `strategy` moves for the dice on the table, or null when nothing can move. */
+export function strategyMove(game: GameState, strategy: Strategy, random: () => number) {
+  if (!game.dice) return null;
+  const { moves } = computeValidMoves(game, game.dice);
+  if (!moves.length) return null;
+  switch (strategy) {
+    case "random":
+      return moves[Math.floor(random() * moves.length)].tokenId;
+    case "greedy": {
+      const captures = moves.filter((m) => m.willCapture.length);
+      return furthest(captures.length ? captures : moves).tokenId;
+    }
+    case "safe": {
+      const safe = moves.filter((m) => movePreview(game, m).threats.length === 0);
+      return furthest(safe.length ? safe : moves).tokenId;
+    }
+    default:
+      return chooseMove(game, strategy, random);
+  }
+}
+
+function playOut(
+  game: GameState,
+  strategies: Map<PlayerColor, Strategy>,
+  maxTurns: number
+): Outcome {
+  const random = seededRandom(game.seed);
+  let state = game;
+  let rolls = 0;
+  let turns = 0;
+  let captures = 0;
+  while (!state.winner && turns < maxTurns) {
+    // Nothing reads the log, and copying it every action adds up.
+    state = { ...state, log: [], redoLog: [], base: null };
+    if (!state.dice) {
+      if (!state.openingRolls) turns += 1;
+      state = gameReducer(state, roll(seededRoll(state.seed, rolls++)));
+      continue;
+    }
+    const tokenId = strategyMove(state, strategies.get(state.currentPlayer)!, random);
+    const option = computeValidMoves(state, state.dice).moves.find((m) => m.tokenId === tokenId);
+    if (!option) break;
+    captures += option.willCapture.length;
+    state = gameReducer(state, move(option.tokenId));
+  }
+  return { winner: state.winner, turns, captures };
+}
+
+/** Plays `config.games` games headlessly and sums up how each seat did. */
+export function simulate(config: SimulationConfig): SimulationReport {
+  const { games, seed, rules, seats, firstPlayer, maxTurns = DEFAULT_MAX_TURNS } = config;
+  const strategies = new Map(seats.map((s) => [s.color, s.strategy]));
+  const wins = new Map<PlayerColor, number>(seats.map((s) => [s.color, 0]));
+  const unfinished: string[] = [];
+  let turns = 0;
+  let captures = 0;
+
+  for (let index = 0; index < games; index += 1) {
+    const game = initialState({
+      seats: seats.map(({ color }) => ({ color, label: "" })),
+      firstPlayer,
+      rules,
+      seed: `${seed}-${index}`,
+    });
+    const outcome = playOut(game, strategies, maxTurns);
+    captures += outcome.captures;
+    const { winner } = outcome;
+    if (!winner) {
+      unfinished.push(game.seed);
+      continue;
+    }
+    turns += outcome.turns;
+    wins.forEach((count, color) => {
+      if (sameSide(game, winner, color)) wins.set(color, count + 1);
+    });
+  }
+
+  const finished = games - unfinished.length;
+  return {
+    seed,
+    rules,
+    games,
+    finished,
+    unfinished,
+    averageTurns: finished ? turns / finished : null,
+    capturesPerGame: games ? captures / games : 0,
+    seats: seats.map(({ color, strategy }) => ({
+      color,
+      strategy,
+      startIndex: START_INDICES[color],
+      wins: wins.get(color)!,
+      winRate: games ? wins.get(color)! / games : 0,
+    })),
+  };
+}
+
+const CSV_COLUMNS = [
+  "color",
+  "strategy",
+  "start_index",
+  "wins",
+  "win_rate",
+  "games",
+  "finished",
+  "unfinished",
+  "average_turns",
+  "captures_per_game",
+];
+
+/** One row per seat, with the run's totals repeated so each row charts on its own. */
+export function reportToCsv(report: SimulationReport) {
+  const rows = report.seats.map((seat) => [
+    seat.color,
+    seat.strategy,
+    seat.startIndex,
+    seat.wins,
+    seat.winRate.toFixed(4),
+    report.games,
+    report.finished,
+    report.unfinished.length,
+    report.averageTurns?.toFixed(2) ?? "",
+    report.capturesPerGame.toFixed(2),
+  ]);
+  return [CSV_COLUMNS, ...rows].map((row) => row.join(",")).join("\n") + "\n";
+}
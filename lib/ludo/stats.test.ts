@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { gameReducer, initialState, move, placeTokens, roll } from "./engine";
+import { type GameRecord, type SeatRecord, profileStats, recordGame } from "./stats";
+import type { Action, GameState } from "./types";
+
+const play = (state: GameState, ...actions: Action[]) => actions.reduce(gameReducer, state);
+
+function finishedGame() {
+  const start = initialState({
+    seed: "stats",
+    seats: [
+      { color: "red", label: "Ana", profile: "ana" },
+      { color: "blue", label: "Ben", profile: "ben" },
+    ],
+    firstPlayer: "roll",
+  });
+  const steps: Record<string, number> = { "red-1": 49, "red-2": 57, "red-3": 57, "red-4": 57 };
+  // blue-1 at blue step 38 sits on track index 51
+  steps["blue-1"] = 38;
+  // The roll-off comes first: 6 against 2.
+  return play(
+    placeTokens(start, steps),
+    roll(6),
+    roll(2),
+    roll(2),
+    move("red-1"),
+    roll(3),
+    roll(6),
+    move("red-1")
+  );
+}
+
+const seat = (color: SeatRecord["color"], profile: string | null): SeatRecord => ({
+  color,
+  label: color,
+  profile,
+  bot: null,
+  place: null,
+  capturesMade: 1,
+  capturesSuffered: 2,
+  sixes: 3,
+});
+
+const game = (id: string, winner: SeatRecord["color"], turns: number, seats: SeatRecord[]) =>
+  ({ id, finishedAt: "2024-01-01T00:00:00.000Z", winner, turns, seats }) satisfies GameRecord;
+
+describe("recordGame", () => {
+  it("waits for a winner", () => {
+    expect(recordGame(initialState())).toBeNull();
+  });
+
+  it("counts captures and sixes per seat, leaving out the roll-off", () => {
+    const state = finishedGame();
+    expect(state.winner).toBe("red");
+    const record = recordGame(state, new Date("2024-05-01T12:00:00Z"))!;
+    expect(record).toMatchObject({
+      id: state.id,
+      finishedAt: "2024-05-01T12:00:00.000Z",
+      winner: "red",
+      turns: 3,
+    });
+    expect(record.seats).toEqual([
+      {
+        color: "red",
+        label: "Ana",
+        profile: "ana",
+        bot: null,
+        place: 1,
+        capturesMade: 1,
+        capturesSuffered: 0,
+        sixes: 1,
+      },
+      {
+        color: "blue",
+        label: "Ben",
+        profile: "ben",
+        bot: null,
+        place: null,
+        capturesMade: 0,
+        capturesSuffered: 1,
+        sixes: 0,
+      },
+    ]);
+  });
+
+  it("keeps games played from the same seed apart", () => {
+    const first = recordGame(finishedGame())!;
+    const second = recordGame(finishedGame())!;
+    expect(second.id).not.toBe(first.id);
+  });
+});
+
+describe("profileStats", () => {
+  const records = [
+    game("a", "red", 40, [seat("red", "ana"), seat("blue", "ben")]),
+    game("b", "blue", 60, [seat("red", "ben"), seat("blue", "ana"), seat("green", null)]),
+    game("c", "green", 50, [seat("blue", "ana"), seat("green", "cai")]),
+    game("d", "red", 10, [seat("red", "ben"), seat("blue", "cai")]),
+  ];
+
+  it("adds up games, wins and totals", () => {
+    const stats = profileStats(records, "ana");
+    expect(stats).toMatchObject({
+      played: 3,
+      wins: 2,
+      capturesMade: 3,
+      capturesSuffered: 6,
+      sixes: 9,
+      averageTurns: 50,
+    });
+    expect(stats.byColor.red).toEqual({ played: 1, wins: 1 });
+    expect(stats.byColor.blue).toEqual({ played: 2, wins: 1 });
+    expect(stats.byColor.green).toEqual({ played: 0, wins: 0 });
+  });
+
+  it("keeps head-to-head records against other profiles only", () => {
+    expect(profileStats(records, "ana").headToHead).toEqual({
+      ben: { played: 2, wins: 2, losses: 0 },
+      cai: { played: 1, wins: 0, losses: 1 },
+    });
+  });
+
+  it("compares places when the game was played to the end", () => {
+    const placed = (color: SeatRecord["color"], profile: string, place: number) => ({
+      ...seat(color, profile),
+      place,
+    });
+    const ended = game("e", "red", 70, [
+      placed("red", "cai", 1),
+      placed("blue", "ben", 2),
+      placed("green", "ana", 3),
+    ]);
+    expect(profileStats([ended], "ben").headToHead).toEqual({
+      cai: { played: 1, wins: 0, losses: 1 },
+      ana: { played: 1, wins: 1, losses: 0 },
+    });
+  });
+
+  it("is empty for a profile with no games", () => {
+    const stats = profileStats(records, "dee");
+    expect(stats.played).toBe(0);
+    expect(stats.averageTurns).toBeNull();
+    expect(stats.headToHead).toEqual({});
+  });
+});
@@ -0,0 +1,159 @@
+import { SEAT_ORDER } from "./constants";
+import { entryAction, gameReducer, logStart, sameSide } from "./engine";
+import type { BotLevel, GameState, PlayerColor } from "./types";
+
+/** Someone who plays on this device, kept across games. */
+export type Profile = { id: string; name: string; color: PlayerColor };
+
+/** How one seat did in a finished game. */
+export type SeatRecord = {
+  color: PlayerColor;
+  label: string;
+  profile: string | null;
+  bot: BotLevel | null;
+  /**
+   * 1 for the winner (both partners in team play, where the losing side is
+   * 2); null for anyone the game ended before ranking.
+   */
+  place: number | null;
+  capturesMade: number;
+  capturesSuffered: number;
+  sixes: number;
+};
+
+/** A finished game, boiled down to what lifetime stats need. */
+export type GameRecord = {
+  /** The game's id, so recording the same game twice replaces it. */
+  id: string;
+  finishedAt: string;
+  winner: PlayerColor;
+  /** Rolls taken after the roll-off for first turn. */
+  turns: number;
+  seats: SeatRecord[];
+};
+
+export type ColorRecord = { played: number; wins: number };
+
+export type HeadToHead = { played: number; wins: number; losses: number };
+
+export type ProfileStats = {
+  played: number;
+  wins: number;
+  byColor: Record<PlayerColor, ColorRecord>;
+  capturesMade: number;
+  capturesSuffered: number;
+  sixes: number;
+  /** Mean turns per game, or null before the first game. */
+  averageTurns: number | null;
+  /** Keyed by the other profile's id; a win means finishing ahead of them. */
+  headToHead: Record<string, HeadToHead>;
+};
+
+export function createProfile(name: string, color: PlayerColor): Profile {
+  return {
+    id: `${Date.now().toString(36)}${Math.floor(Math.random() * 36 ** 4).toString(36)}`,
+    name: name.trim() || "Player",
+    color,
+  };
+}
+
+/**
+ * The record for a finished game, or null while nobody has won. The log is
+ * replayed from its start so roll-off dice don't count as turns or sixes;
+ * without a known start every roll counts.
+ */
+export function recordGame(game: GameState, now = new Date()): GameRecord | null {
+  const { winner } = game;
+  if (!winner) return null;
+  const placeOf = (color: PlayerColor) => {
+    if (game.rules.teams) return sameSide(game, winner, color) ? 1 : 2;
+    return game.finishOrder.indexOf(color) + 1 || null;
+  };
+  const seats = new Map<PlayerColor, SeatRecord>(
+    game.players.map((p) => [
+      p.color,
+      {
+        color: p.color,
+        label: p.label,
+        profile: p.profile ?? null,
+        bot: p.bot,
+        place: placeOf(p.color),
+        capturesMade: 0,
+        capturesSuffered: 0,
+        sixes: 0,
+      },
+    ])
+  );
+  const ownerOf = (tokenId: string) => seats.get(tokenId.split("-")[0] as PlayerColor);
+
+  let turns = 0;
+  let state = logStart(game);
+  game.log.forEach((entry) => {
+    const seat = seats.get(entry.player)!;
+    if (entry.kind === "roll" && !state?.openingRolls) {
+      turns += 1;
+      if (entry.dice === 6) seat.sixes += 1;
+    } else if (entry.kind === "move") {
+      seat.capturesMade += entry.captures.length;
+      entry.captures.forEach((id) => {
+        const victim = ownerOf(id);
+        if (victim) victim.capturesSuffered += 1;
+      });
+    }
+    if (state) state = gameReducer(state, entryAction(entry));
+  });
+
+  return {
+    id: game.id,
+    finishedAt: now.toISOString(),
+    winner,
+    turns,
+    seats: [...seats.values()],
+  };
+}
+
+/** Lifetime totals for one profile across every recorded game. */
+export function profileStats(records: GameRecord[], profileId: string): ProfileStats {
+  const stats: ProfileStats = {
+    played: 0,
+    wins: 0,
+    byColor: Object.fromEntries(
+      SEAT_ORDER.map((color) => [color, { played: 0, wins: 0 }])
+    ) as Record<PlayerColor, ColorRecord>,
+    capturesMade: 0,
+    capturesSuffered: 0,
+    sixes: 0,
+    averageTurns: null,
+    headToHead: {},
+  };
+  let turns = 0;
+
+  records.forEach((record) => {
+    // Unranked seats all tie behind everyone who finished.
+    const rank = (s: SeatRecord) => s.place ?? (s.color === record.winner ? 1 : Infinity);
+    const seat = record.seats.find((s) => s.profile === profileId);
+    if (!seat) return;
+    const won = rank(seat) === 1;
+    stats.played += 1;
+    stats.byColor[seat.color].played += 1;
+    if (won) {
+      stats.wins += 1;
+      stats.byColor[seat.color].wins += 1;
+    }
+    stats.capturesMade += seat.capturesMade;
+    stats.capturesSuffered += seat.capturesSuffered;
+    stats.sixes += seat.sixes;
+    turns += record.turns;
+
+    record.seats.forEach((other) => {
+      if (!other.profile || other.profile === profileId) return;
+      const versus = (stats.headToHead[other.profile] ??= { played: 0, wins: 0, losses: 0 });
+      versus.played += 1;
+      if (rank(seat) < rank(other)) versus.wins += 1;
+      if (rank(other) < rank(seat)) versus.losses += 1;
+    });
+  });
+
+  if (stats.played) stats.averageTurns = turns / stats.played;
+  return stats;
+}
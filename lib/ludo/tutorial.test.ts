@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { computeValidMoves } from "./engine";
+import {
+  LESSONS,
+  type TutorialProgress,
+  expectedMove,
+  startLesson,
+  tutorialMove,
+  tutorialNext,
+  tutorialRoll,
+} from "./tutorial";
+
+const lesson = (id: string) => LESSONS.find((l) => l.id === id)!;
+
+/** Plays every step the way the script asks. */
+function playThrough(progress: TutorialProgress) {
+  let current = progress;
+  while (current.phase !== "complete") {
+    current = tutorialRoll(current);
+    const tokenId = current.lesson.steps[current.step].tokenId;
+    if (tokenId) current = tutorialMove(current, tokenId);
+    expect(current.phase).toBe("review");
+    current = tutorialNext(current);
+  }
+  return current;
+}
+
+const stepsOf = (progress: TutorialProgress, tokenId: string) =>
+  progress.state.players.flatMap((p) => p.tokens).find((t) => t.id === tokenId)!.steps;
+
+describe("tutorial", () => {
+  it("scripts a legal roll for every step of every lesson", () => {
+    LESSONS.forEach((l) => {
+      let progress = startLesson(l);
+      l.steps.forEach((step) => {
+        progress = tutorialRoll(progress);
+        if (step.tokenId) {
+          expect(expectedMove(progress)?.tokenId, `${l.id}: ${step.prompt}`).toBe(step.tokenId);
+          progress = tutorialMove(progress, step.tokenId);
+        } else {
+          expect(computeValidMoves(progress.state, step.dice).moves).toEqual([]);
+        }
+        progress = tutorialNext(progress);
+      });
+      expect(progress.phase).toBe("complete");
+    });
+  });
+
+  it("holds the lesson until the expected token is played", () => {
+    const rolled = tutorialRoll(startLesson(lesson("moving")));
+    const wrong = tutorialMove(rolled, "red-2");
+    expect(wrong.phase).toBe("move");
+    expect(wrong.state).toBe(rolled.state);
+    expect(wrong.hint).toMatch(/token 1/);
+    expect(tutorialMove(wrong, "red-1").phase).toBe("review");
+  });
+
+  it("ignores taps before the roll", () => {
+    const start = startLesson(lesson("captures"));
+    expect(tutorialMove(start, "red-1")).toBe(start);
+  });
+
+  it("hands the turn back to the learner between steps", () => {
+    const rolled = tutorialRoll(startLesson(lesson("moving")));
+    const afterFirst = tutorialNext(tutorialMove(rolled, "red-1"));
+    expect(afterFirst.state.currentPlayer).toBe("red");
+    expect(afterFirst.state.message).toBe(lesson("moving").steps[1].prompt);
+  });
+
+  it("ends each lesson in the position it teaches", () => {
+    expect(stepsOf(playThrough(startLesson(lesson("captures"))), "blue-1")).toBeNull();
+    expect(stepsOf(playThrough(startLesson(lesson("safe"))), "blue-1")).toBe(47);
+    expect(stepsOf(playThrough(startLesson(lesson("home-column"))), "red-1")).toBe(54);
+    expect(stepsOf(playThrough(startLesson(lesson("finish"))), "red-1")).toBe(57);
+  });
+});
@@ -0,0 +1,216 @@
+import { scriptedDice } from "./dice";
+import { computeValidMoves, gameReducer, initialState, move, placeTokens, roll } from "./engine";
+import type { GameState, MoveOption, PlayerColor } from "./types";
+
+/** The learner always plays red against a single rival. */
+export const LEARNER: PlayerColor = "red";
+
+/** One scripted roll and the move the learner is asked to make with it. */
+export type LessonStep = {
+  /** Shown before rolling. */
+  prompt: string;
+  dice: number;
+  /** The token to move, or null when the roll is meant to have no move. */
+  tokenId: string | null;
+  /** Shown once the step is played. */
+  explain: string;
+};
+
+export type Lesson = {
+  id: string;
+  title: string;
+  summary: string;
+  /** Token steps to start from, keyed by token id; others wait in the yard. */
+  positions: Record<string, number>;
+  steps: LessonStep[];
+};
+
+export type TutorialPhase = "roll" | "move" | "review" | "complete";
+
+export type TutorialProgress = {
+  lesson: Lesson;
+  step: number;
+  phase: TutorialPhase;
+  state: GameState;
+  /** Set when the learner tried something other than the expected move. */
+  hint: string | null;
+};
+
+export const LESSONS: Lesson[] = [
+  {
+    id: "entering",
+    title: "Entering on a 6",
+    summary: "Tokens wait in the yard until you roll a 6.",
+    positions: {},
+    steps: [
+      {
+        prompt: "All your tokens start in the yard. Roll the dice.",
+        dice: 3,
+        tokenId: null,
+        explain: "A 3 can't bring a token out, so there is nothing to move.",
+      },
+      {
+        prompt: "Try again.",
+        dice: 6,
+        tokenId: "red-1",
+        explain: "A 6 puts a token on your start square, and a 6 always earns another roll.",
+      },
+    ],
+  },
+  {
+    id: "moving",
+    title: "Moving",
+    summary: "Each roll moves one token that many squares.",
+    positions: { "red-1": 0, "red-2": 10 },
+    steps: [
+      {
+        prompt: "You have two tokens out. Roll, then move token 1.",
+        dice: 4,
+        tokenId: "red-1",
+        explain: "Token 1 moved four squares along the track, clockwise.",
+      },
+      {
+        prompt: "Roll again and this time move token 2.",
+        dice: 2,
+        tokenId: "red-2",
+        explain: "You choose which token to move each turn; spreading them out keeps options open.",
+      },
+    ],
+  },
+  {
+    id: "captures",
+    title: "Captures",
+    summary: "Landing on a rival sends their token back to the yard.",
+    // blue-1 at blue step 49 sits on track index 10
+    positions: { "red-1": 7, "blue-1": 49 },
+    steps: [
+      {
+        prompt: "A blue token sits three squares ahead of you. Roll.",
+        dice: 3,
+        tokenId: "red-1",
+        explain: "You landed on it exactly, so it goes back to Blue's yard to start over.",
+      },
+    ],
+  },
+  {
+    id: "safe",
+    title: "Safe squares",
+    summary: "Stars protect every token standing on them.",
+    // blue-1 at blue step 47 sits on the safe star at track index 8
+    positions: { "red-1": 5, "red-2": 20, "blue-1": 47 },
+    steps: [
+      {
+        prompt: "Blue is resting on a star. Roll and move token 1 onto it.",
+        dice: 3,
+        tokenId: "red-1",
+        explain: "Nobody is captured on a star: both tokens now share the square safely.",
+      },
+    ],
+  },
+  {
+    id: "home-column",
+    title: "The home column",
+    summary: "After a full lap your tokens turn into your own coloured lane.",
+    positions: { "red-1": 49 },
+    steps: [
+      {
+        prompt: "Token 1 has nearly gone round the board. Roll and move it.",
+        dice: 5,
+        tokenId: "red-1",
+        explain: "It turned into the red home column, where no rival can reach it.",
+      },
+    ],
+  },
+  {
+    id: "finish",
+    title: "The exact finish",
+    summary: "You need the exact roll to reach the centre.",
+    positions: { "red-1": 54 },
+    steps: [
+      {
+        prompt: "Token 1 is three squares from the finish. Roll.",
+        dice: 5,
+        tokenId: null,
+        explain: "A 5 would overshoot the centre, so the token can't move this turn.",
+      },
+      {
+        prompt: "Roll once more.",
+        dice: 3,
+        tokenId: "red-1",
+        explain: "Exactly 3: the token is home. Bring all four home to win.",
+      },
+    ],
+  },
+];
+
+/** The lesson's board, with the learner about to roll. */
+export function lessonState(lesson: Lesson): GameState {
+  const start = initialState({
+    seats: [
+      { color: LEARNER, label: "You" },
+      { color: "blue", label: "Rival" },
+    ],
+    firstPlayer: LEARNER,
+    seed: `tutorial-${lesson.id}`,
+  });
+  return placeTokens({ ...start, message: lesson.steps[0].prompt }, lesson.positions);
+}
+
+export function startLesson(lesson: Lesson): TutorialProgress {
+  return { lesson, step: 0, phase: "roll", state: lessonState(lesson), hint: null };
+}
+
+/** The move the current step asks for, once its dice are on the table. */
+export function expectedMove(progress: TutorialProgress): MoveOption | undefined {
+  const { state, lesson, step, phase } = progress;
+  const tokenId = lesson.steps[step]?.tokenId;
+  if (phase !== "move" || !tokenId || !state.dice) return undefined;
+  return computeValidMoves(state, state.dice).moves.find((m) => m.tokenId === tokenId);
+}
+
+/** Rolls the step's scripted dice. Each step rolls once, so roll `i` is step `i`'s. */
+export function tutorialRoll(progress: TutorialProgress): TutorialProgress {
+  if (progress.phase !== "roll") return progress;
+  const { lesson, step } = progress;
+  const current = lesson.steps[step];
+  const dice = scriptedDice(lesson.steps.map((s) => s.dice));
+  const state = gameReducer(progress.state, roll(dice.roll(progress.state)));
+  return { ...progress, state, phase: current.tokenId ? "move" : "review", hint: null };
+}
+
+/** Plays `tokenId` if it is the move the step asks for; otherwise explains why not. */
+export function tutorialMove(progress: TutorialProgress, tokenId: string): TutorialProgress {
+  const expected = expectedMove(progress);
+  if (!expected) return progress;
+  if (tokenId !== expected.tokenId) {
+    const number = expected.tokenId.split("-")[1];
+    return { ...progress, hint: `Not that one - this lesson is about token ${number}.` };
+  }
+  return {
+    ...progress,
+    state: gameReducer(progress.state, move(tokenId)),
+    phase: "review",
+    hint: null,
+  };
+}
+
+/** Moves past the explanation to the next step, giving the learner the turn back. */
+export function tutorialNext(progress: TutorialProgress): TutorialProgress {
+  if (progress.phase !== "review") return progress;
+  const step = progress.step + 1;
+  const next = progress.lesson.steps[step];
+  if (!next) return { ...progress, phase: "complete" };
+  return {
+    ...progress,
+    step,
+    phase: "roll",
+    hint: null,
+    state: {
+      ...progress.state,
+      currentPlayer: LEARNER,
+      dice: null,
+      sixStreak: 0,
+      message: next.prompt,
+    },
+  };
+}
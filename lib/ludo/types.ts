@@ -0,0 +1,159 @@
+export type PlayerColor = "red" | "blue" | "green" | "yellow";
+
+export type Token = {
+  id: string;
+  steps: number | null; // null = home, 0-51 track, 52-56 final, 57 done
+};
+
+export type BotLevel = "easy" | "normal" | "hard";
+
+export type Player = {
+  color: PlayerColor;
+  label: string;
+  startIndex: number;
+  tokens: Token[];
+  captures: number;
+  /** Computer-controlled seat, or null for a person. */
+  bot: BotLevel | null;
+  /** Id of the local profile playing this seat, whose stats the game counts toward. */
+  profile?: string | null;
+};
+
+/** House rules picked when a game starts; every rule check reads from here. */
+export type RuleSet = {
+  /** Dice values that let a token leave home. */
+  entryRolls: number[];
+  /** A third 6 in a row ends the turn without moving. */
+  threeSixesForfeit: boolean;
+  /** Capturing a rival grants another roll. */
+  bonusRollOnCapture: boolean;
+  /** Bringing a token home grants another roll. */
+  bonusRollOnHome: boolean;
+  /** Finishing needs the exact count; otherwise the token bounces back. */
+  exactFinish: boolean;
+  /** Tokens keep circling until their player has captured at least once. */
+  captureBeforeHomeColumn: boolean;
+  /** Star cells protect tokens from capture. */
+  safeStars: boolean;
+  /** Two same-colour tokens on a track cell can't be captured or passed. */
+  blockades: boolean;
+  /** Keep playing after the first player finishes until every place is decided. */
+  playToEnd: boolean;
+  /**
+   * Opposite seats play as partners: they never capture each other, a
+   * finished player moves their partner's tokens, and the first side with
+   * all eight tokens home wins. Takes precedence over `playToEnd`. Only
+   * applies with all four seats filled; a game with fewer ignores it.
+   */
+  teams: boolean;
+};
+
+export type Seat = {
+  color: PlayerColor;
+  label: string;
+  bot?: BotLevel | null;
+  profile?: string | null;
+};
+
+/** "seeded" rolls on screen from the game seed; "manual" takes typed-in physical rolls. */
+export type DiceMode = "seeded" | "manual";
+
+/** Everything chosen on the new-game screen. */
+export type GameSetup = {
+  /** Seated colours; turn order always follows the board, not this list. */
+  seats: Seat[];
+  /** Who opens the game, or "roll" to have every seat roll for it. */
+  firstPlayer: PlayerColor | "roll";
+  rules: RuleSet;
+  /** Dice seed; a fresh random one when omitted. */
+  seed?: string;
+  diceMode: DiceMode;
+};
+
+/** Roll-off for the first turn; the highest roll among `contenders` starts. */
+export type OpeningRolls = {
+  contenders: PlayerColor[];
+  rolls: Partial<Record<PlayerColor, number>>;
+};
+
+export type LogEntry =
+  | { kind: "roll"; player: PlayerColor; dice: number }
+  | {
+      kind: "move";
+      player: PlayerColor;
+      dice: number;
+      tokenId: string;
+      from: number | null;
+      to: number;
+      captures: string[];
+    };
+
+export type GameState = {
+  /**
+   * Unique to this game. Undo keeps it; a new game, even one started from
+   * the same seed, or a duplicated save gets another.
+   */
+  id: string;
+  players: Player[];
+  currentPlayer: PlayerColor;
+  dice: number | null;
+  message: string;
+  /** First place, set once the game is over. */
+  winner: PlayerColor | null;
+  /**
+   * Players in the order they brought their last token home. When playing
+   * to the end, the one left over is added last as the game ends.
+   */
+  finishOrder: PlayerColor[];
+  rules: RuleSet;
+  sixStreak: number;
+  openingRolls: OpeningRolls | null;
+  /** The first-turn choice the game started with, kept so it can be rebuilt. */
+  firstPlayer: PlayerColor | "roll";
+  /** Every accepted roll and move, oldest first. */
+  log: LogEntry[];
+  /** Entries taken back by undo, most recently undone last. */
+  redoLog: LogEntry[];
+  /**
+   * The position `log` starts from, which undo and replays rebuild the game
+   * from. Null when it isn't known, as for a game whose earlier history was
+   * lost; such a game can't be undone or replayed.
+   */
+  base: Position | null;
+  seed: string;
+  diceMode: DiceMode;
+};
+
+/** Everything rolls and moves change: the board, the turn and the roll-off. */
+export type Position = Pick<
+  GameState,
+  | "players"
+  | "currentPlayer"
+  | "dice"
+  | "message"
+  | "winner"
+  | "finishOrder"
+  | "sixStreak"
+  | "openingRolls"
+>;
+
+export type MoveOption = {
+  tokenId: string;
+  nextSteps: number;
+  willCapture: string[];
+  /** Set when the move would be legal but a blockade stands in the way. */
+  blocked?: { trackIndex: number; color: PlayerColor; reason: string };
+};
+
+export type TokenPhase =
+  | { phase: "home" }
+  | { phase: "track"; trackIndex: number }
+  | { phase: "final"; finalIndex: number }
+  | { phase: "done" };
+
+export type Action =
+  | { type: "roll"; value: number }
+  | { type: "move"; tokenId: string }
+  | { type: "reset"; setup?: Partial<GameSetup> }
+  | { type: "undo" }
+  | { type: "redo" };
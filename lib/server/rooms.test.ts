@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { scriptedDice } from "../ludo";
+import {
+  type RoomSnapshot,
+  type TurnTimer,
+  RoomError,
+  actInRoom,
+  chatInRoom,
+  createRoom,
+  expireTurn,
+  getRoom,
+  joinRoom,
+  rejoinRoom,
+  snapshotOf,
+  subscribe,
+} from "./rooms";
+
+const twoSeats = {
+  seats: [
+    { color: "red" as const, label: "Red", bot: "hard" as const },
+    { color: "blue" as const, label: "Blue" },
+  ],
+};
+
+function seatedRoom(timer: Parameters<typeof createRoom>[1] = null) {
+  const room = createRoom(twoSeats, timer);
+  const red = joinRoom(room.code, "red", "Ana").token;
+  const blue = joinRoom(room.code, "blue", "Ben").token;
+  return { room, red, blue };
+}
+
+function refusal(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof RoomError) return error.status;
+    throw error;
+  }
+  throw new Error("expected a RoomError");
+}
+
+describe("rooms", () => {
+  it("creates rooms with human seats and short codes", () => {
+    const room = createRoom(twoSeats);
+    expect(room.code).toMatch(/^[A-Z2-9]{5}$/);
+    expect(room.state.players.every((p) => p.bot === null)).toBe(true);
+    expect(getRoom(room.code.toLowerCase())).toBe(room);
+    expect(refusal(() => getRoom("ZZZZZ0"))).toBe(404);
+  });
+
+  it("refuses setups and timers that can't make a game", () => {
+    const create = (setup: unknown, timer: unknown = null) => () =>
+      createRoom(setup as Parameters<typeof createRoom>[0], timer as TurnTimer);
+    const red = { color: "red", label: "Red" };
+    expect(refusal(create({ seats: [] }))).toBe(400);
+    expect(refusal(create({ seats: [red] }))).toBe(400);
+    expect(refusal(create({ seats: [red, red] }))).toBe(400);
+    expect(refusal(create({ seats: [red, { color: "purple", label: "P" }] }))).toBe(400);
+    expect(refusal(create({ ...twoSeats, rules: { safeStars: "yes" } }))).toBe(400);
+    expect(refusal(create({ ...twoSeats, firstPlayer: "green" }))).toBe(400);
+    expect(refusal(create(null))).toBe(400);
+    expect(refusal(create(twoSeats, { seconds: -5, fallback: "first" }))).toBe(400);
+    expect(refusal(create(twoSeats, { seconds: 1e9, fallback: "first" }))).toBe(400);
+    expect(refusal(create(twoSeats, { seconds: 30, fallback: "cheat" }))).toBe(400);
+    expect(createRoom(undefined).state.players).toHaveLength(4);
+  });
+
+  it("claims each colour once and names the player", () => {
+    const room = createRoom(twoSeats);
+    const { token, snapshot } = joinRoom(room.code, "red", "Ana");
+    expect(token).toBeTruthy();
+    expect(snapshot.seats).toEqual({ red: { name: "Ana", connected: false } });
+    expect(JSON.stringify(snapshot)).not.toContain(token);
+    expect(room.state.players[0].label).toBe("Ana");
+    expect(refusal(() => joinRoom(room.code, "red", "Eve"))).toBe(409);
+    expect(refusal(() => joinRoom(room.code, "green", "Eve"))).toBe(400);
+  });
+
+  it("waits until every seat is claimed", () => {
+    const room = createRoom(twoSeats);
+    const { token } = joinRoom(room.code, "red", "Ana");
+    expect(refusal(() => actInRoom(room.code, token, { type: "roll" }))).toBe(409);
+  });
+
+  it("only lets the seated player act on their turn", () => {
+    const { room, red, blue } = seatedRoom();
+    expect(refusal(() => actInRoom(room.code, "stranger", { type: "roll" }))).toBe(403);
+    expect(refusal(() => actInRoom(room.code, blue, { type: "roll" }))).toBe(409);
+    const snapshot = actInRoom(room.code, red, { type: "roll" }, scriptedDice([6]));
+    expect(snapshot.state.dice).toBe(6);
+    expect(refusal(() => actInRoom(room.code, red, { type: "roll" }))).toBe(409);
+  });
+
+  it("rejects moves the dice don't allow", () => {
+    const { room, red } = seatedRoom();
+    expect(refusal(() => actInRoom(room.code, red, { type: "move", tokenId: "red-1" }))).toBe(409);
+    actInRoom(room.code, red, { type: "roll" }, scriptedDice([6]));
+    expect(refusal(() => actInRoom(room.code, red, { type: "move", tokenId: "blue-1" }))).toBe(409);
+    const snapshot = actInRoom(room.code, red, { type: "move", tokenId: "red-1" });
+    expect(snapshot.state.players[0].tokens[0].steps).toBe(0);
+  });
+
+  it("tells subscribers about every change", () => {
+    const room = createRoom(twoSeats);
+    const versions: number[] = [];
+    const stop = subscribe(room.code, (snapshot) => versions.push(snapshot.version));
+    joinRoom(room.code, "red", "Ana");
+    stop();
+    joinRoom(room.code, "blue", "Ben");
+    expect(versions).toEqual([1, 2]);
+  });
+});
+
+describe("reconnection and spectators", () => {
+  it("hands a returning player back their seat", () => {
+    const { room, red } = seatedRoom();
+    expect(rejoinRoom(room.code, red).color).toBe("red");
+    expect(refusal(() => rejoinRoom(room.code, "forged"))).toBe(403);
+  });
+
+  it("shows which seats are connected and counts spectators", () => {
+    const { room, red } = seatedRoom();
+    let latest: RoomSnapshot | null = null;
+    const stopRed = subscribe(room.code, (s) => (latest = s), red);
+    const stopWatcher = subscribe(room.code, () => {});
+    subscribe(room.code, () => {}, "forged");
+    expect(latest!.seats.red!.connected).toBe(true);
+    expect(latest!.seats.blue!.connected).toBe(false);
+    expect(latest!.spectators).toBe(2);
+    stopWatcher();
+    expect(latest!.spectators).toBe(1);
+    stopRed();
+  });
+});
+
+describe("chat", () => {
+  it("posts filtered messages and known reactions from seated players", () => {
+    const { room, red, blue } = seatedRoom();
+    chatInRoom(room.code, red, { kind: "message", text: "  good   luck, shit head " });
+    const snapshot = chatInRoom(room.code, blue, { kind: "reaction", emoji: "👏" });
+    expect(snapshot.chat.slice(-2)).toEqual([
+      { id: 3, kind: "message", color: "red", text: "good luck, s*** head" },
+      { id: 4, kind: "reaction", color: "blue", text: "👏" },
+    ]);
+    expect(refusal(() => chatInRoom(room.code, blue, { kind: "reaction", emoji: "🐍" }))).toBe(400);
+    expect(refusal(() => chatInRoom(room.code, red, { kind: "message", text: "   " }))).toBe(400);
+    expect(refusal(() => chatInRoom(room.code, "stranger", { kind: "message", text: "hi" }))).toBe(
+      403
+    );
+  });
+
+  it("narrates joins and sixes", () => {
+    const { room, red } = seatedRoom();
+    const snapshot = actInRoom(room.code, red, { type: "roll" }, scriptedDice([6]));
+    expect(snapshot.chat.map((line) => line.text)).toEqual([
+      "Ana sat down",
+      "Ben sat down",
+      "Ana rolled a 6",
+    ]);
+  });
+});
+
+describe("turn timers", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("rolls and moves the first legal token when time runs out", () => {
+    const { room } = seatedRoom({ seconds: 30, fallback: "first" });
+    const snapshot = expireTurn(room.code, scriptedDice([6]));
+    expect(snapshot.state.players[0].tokens[0].steps).toBe(0);
+    expect(snapshot.state.log.map((e) => e.kind)).toEqual(["roll", "move"]);
+    expect(snapshot.state.message).toMatch(/^Ana ran out of time/);
+  });
+
+  it("can let a bot choose instead", () => {
+    const { room } = seatedRoom({ seconds: 30, fallback: "normal" });
+    const snapshot = expireTurn(room.code, scriptedDice([6]));
+    expect(snapshot.state.log).toHaveLength(2);
+  });
+
+  it("only runs the clock while the game is live and watched", () => {
+    vi.useFakeTimers();
+    const { room } = seatedRoom({ seconds: 30, fallback: "first" });
+    expect(room.turnDeadline).toBeNull();
+    const stop = subscribe(room.code, () => {});
+    expect(snapshotOf(room).turnEndsIn).toBe(30_000);
+    vi.advanceTimersByTime(10_000);
+    expect(snapshotOf(room).turnEndsIn).toBe(20_000);
+    vi.advanceTimersByTime(20_000);
+    expect(getRoom(room.code).state.log[0]).toMatchObject({ kind: "roll", player: "red" });
+    stop();
+    expect(room.turnDeadline).toBeNull();
+  });
+});
@@ -0,0 +1,365 @@
+import {
+  type BotLevel,
+  type ChatLine,
+  type ChatPost,
+  type DiceSource,
+  type GameSetup,
+  type GameState,
+  type PlayerColor,
+  MIN_PLAYERS,
+  SEAT_ORDER,
+  addChatLines,
+  chatLineFor,
+  chooseMove,
+  computeValidMoves,
+  cryptoDice,
+  currentMoves,
+  findPlayer,
+  gameReducer,
+  initialState,
+  move,
+  roll,
+  systemLines,
+  validateRules,
+} from "../ludo";
+
+// No 0/O or 1/I, so codes survive being read out across a room.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 5;
+const ROOM_IDLE_MS = 6 * 60 * 60 * 1000;
+const MAX_TURN_SECONDS = 600;
+const TIMER_FALLBACKS: TurnTimer["fallback"][] = ["first", "easy", "normal", "hard"];
+
+/** A claimed colour. `token` is the seat's secret; only its holder may act. */
+type SeatClaim = { token: string; name: string };
+
+/**
+ * How long each turn may take. When it runs out the server rolls for the
+ * player and moves either their first legal token or what a bot would pick.
+ */
+export type TurnTimer = { seconds: number; fallback: "first" | BotLevel };
+
+export type RoomListener = (snapshot: RoomSnapshot) => void;
+
+export type Room = {
+  code: string;
+  state: GameState;
+  seats: Partial<Record<PlayerColor, SeatClaim>>;
+  timer: TurnTimer | null;
+  /** When the current turn runs out (epoch ms), or null while the clock is stopped. */
+  turnDeadline: number | null;
+  turnTimeout: ReturnType<typeof setTimeout> | null;
+  /** Bumped on every change so clients can drop stale snapshots. */
+  version: number;
+  touchedAt: number;
+  chat: ChatLine[];
+  /** Open connections and the seat each one plays, or null for spectators. */
+  listeners: Map<RoomListener, PlayerColor | null>;
+};
+
+/** What clients see: the game and who sits where, never the seat tokens. */
+export type RoomSnapshot = {
+  code: string;
+  version: number;
+  state: GameState;
+  seats: Partial<Record<PlayerColor, { name: string; connected: boolean }>>;
+  spectators: number;
+  timer: TurnTimer | null;
+  /** Milliseconds left in the current turn when the snapshot was taken. */
+  turnEndsIn: number | null;
+  chat: ChatLine[];
+};
+
+export type RoomAction = { type: "roll" } | { type: "move"; tokenId: string };
+
+/** A request the room refused; `status` is the HTTP status to answer with. */
+export class RoomError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400
+  ) {
+    super(message);
+    this.name = "RoomError";
+  }
+}
+
+// Kept on globalThis so dev-mode module reloads don't drop live games.
+const globalRooms = globalThis as typeof globalThis & { ludoRooms?: Map<string, Room> };
+const rooms = (globalRooms.ludoRooms ??= new Map<string, Room>());
+
+function randomCode() {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join("");
+}
+
+/** Forgets rooms nobody has touched or watched for a while. */
+function sweepIdle(now: number) {
+  rooms.forEach((room, code) => {
+    if (!room.listeners.size && now - room.touchedAt > ROOM_IDLE_MS) {
+      if (room.turnTimeout) clearTimeout(room.turnTimeout);
+      rooms.delete(code);
+    }
+  });
+}
+
+export function snapshotOf(room: Room): RoomSnapshot {
+  const connected = new Set(room.listeners.values());
+  const seats: RoomSnapshot["seats"] = {};
+  (Object.keys(room.seats) as PlayerColor[]).forEach((color) => {
+    seats[color] = { name: room.seats[color]!.name, connected: connected.has(color) };
+  });
+  return {
+    code: room.code,
+    version: room.version,
+    state: room.state,
+    seats,
+    spectators: Array.from(room.listeners.values()).filter((color) => !color).length,
+    timer: room.timer,
+    turnEndsIn: room.turnDeadline === null ? null : Math.max(room.turnDeadline - Date.now(), 0),
+    chat: room.chat,
+  };
+}
+
+function everyoneSeated(room: Room) {
+  return room.state.players.every((p) => room.seats[p.color]);
+}
+
+// The clock only runs while the game is live and someone is around to see it,
+// so an abandoned room doesn't play itself to the end.
+function clockRuns(room: Room) {
+  return (
+    !!room.timer && !room.state.winner && everyoneSeated(room) && room.listeners.size > 0
+  );
+}
+
+function restartClock(room: Room) {
+  if (room.turnTimeout) clearTimeout(room.turnTimeout);
+  room.turnTimeout = null;
+  room.turnDeadline = null;
+  if (!room.timer || !clockRuns(room)) return;
+  const ms = room.timer.seconds * 1000;
+  room.turnDeadline = Date.now() + ms;
+  room.turnTimeout = setTimeout(() => expireTurn(room.code), ms);
+}
+
+const systemChat = (text: string): Omit<ChatLine, "id"> => ({ kind: "system", color: null, text });
+
+/**
+ * Stores `state` and tells every listener. A new game state restarts the
+ * turn clock and narrates what happened in the chat.
+ */
+function publish(room: Room, state: GameState = room.state) {
+  const changed = state !== room.state;
+  if (changed) {
+    room.chat = addChatLines(room.chat, systemLines(room.state, state).map(systemChat));
+  }
+  room.state = state;
+  room.version += 1;
+  room.touchedAt = Date.now();
+  if (changed || room.turnDeadline === null || !clockRuns(room)) restartClock(room);
+  const snapshot = snapshotOf(room);
+  room.listeners.forEach((_color, listener) => listener(snapshot));
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Throws RoomError unless `setup`, as sent by a client, can start a game. */
+function checkSetup(setup: unknown) {
+  if (!isRecord(setup)) throw new RoomError("setup must be an object");
+  const { seats = SEAT_ORDER.map((color) => ({ color, label: "" })), firstPlayer, rules, seed } =
+    setup;
+  if (!Array.isArray(seats)) throw new RoomError("setup.seats must be a list");
+  const colors = seats.map((seat) => (isRecord(seat) ? seat.color : undefined));
+  if (!colors.every((color) => SEAT_ORDER.includes(color as PlayerColor))) {
+    throw new RoomError("setup.seats must only hold known colours");
+  }
+  if (new Set(colors).size !== colors.length) {
+    throw new RoomError("setup.seats lists a colour twice");
+  }
+  if (colors.length < MIN_PLAYERS) {
+    throw new RoomError(`A room needs at least ${MIN_PLAYERS} seats`);
+  }
+  if (!seats.every((seat) => typeof seat.label === "string")) {
+    throw new RoomError("Every seat needs a label");
+  }
+  if (firstPlayer !== undefined && firstPlayer !== "roll" && !colors.includes(firstPlayer)) {
+    throw new RoomError(`firstPlayer must be "roll" or a seated colour`);
+  }
+  if (rules !== undefined) {
+    const issues = validateRules(rules, "rules");
+    if (issues.length) throw new RoomError(`Bad rules: ${issues.join("; ")}`);
+  }
+  if (seed !== undefined && typeof seed !== "string") {
+    throw new RoomError("seed must be text");
+  }
+}
+
+/** Throws RoomError unless `timer` is null or a usable turn limit. */
+function checkTimer(timer: unknown) {
+  if (timer === null) return;
+  if (!isRecord(timer)) throw new RoomError("timer must be an object or null");
+  const seconds = timer.seconds as number;
+  if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_TURN_SECONDS) {
+    throw new RoomError(`timer.seconds must be a whole number from 0 to ${MAX_TURN_SECONDS}`);
+  }
+  if (!TIMER_FALLBACKS.includes(timer.fallback as TurnTimer["fallback"])) {
+    throw new RoomError(`timer.fallback must be one of ${TIMER_FALLBACKS.join(", ")}`);
+  }
+}
+
+/**
+ * Opens a room for `setup`. Every seat is played by a person at their own
+ * device, so bots are dropped and the server rolls every die. Both arguments
+ * come straight from a client and are checked before use.
+ */
+export function createRoom(
+  setup: Partial<GameSetup> = {},
+  timer: TurnTimer | null = null,
+  now = Date.now()
+): Room {
+  checkSetup(setup);
+  checkTimer(timer);
+  sweepIdle(now);
+  let code = randomCode();
+  while (rooms.has(code)) code = randomCode();
+  const state = initialState({
+    ...setup,
+    seats: setup.seats?.map(({ color, label }) => ({ color, label, bot: null })),
+    diceMode: "seeded",
+  });
+  const room: Room = {
+    code,
+    state,
+    seats: {},
+    timer: timer && timer.seconds > 0 ? timer : null,
+    turnDeadline: null,
+    turnTimeout: null,
+    version: 0,
+    touchedAt: now,
+    chat: [],
+    listeners: new Map(),
+  };
+  rooms.set(code, room);
+  return room;
+}
+
+export function getRoom(code: string): Room {
+  const room = rooms.get(code.trim().toUpperCase());
+  if (!room) throw new RoomError(`No room with code ${code}`, 404);
+  return room;
+}
+
+/** Claims `color` for `name`; the returned token proves the claim later. */
+export function joinRoom(code: string, color: PlayerColor, name: string) {
+  const room = getRoom(code);
+  if (!room.state.players.some((p) => p.color === color)) {
+    throw new RoomError(`${color} is not seated in this game`);
+  }
+  if (room.seats[color]) throw new RoomError(`${color} is already taken`, 409);
+  const label = name.trim().slice(0, 20) || findPlayer(room.state.players, color).label;
+  const token = globalThis.crypto.randomUUID();
+  room.seats[color] = { token, name: label };
+  room.chat = addChatLines(room.chat, [systemChat(`${label} sat down`)]);
+  publish(room, {
+    ...room.state,
+    players: room.state.players.map((p) => (p.color === color ? { ...p, label } : p)),
+  });
+  return { token, snapshot: snapshotOf(room) };
+}
+
+function seatOf(room: Room, token: string) {
+  return (Object.keys(room.seats) as PlayerColor[]).find(
+    (c) => room.seats[c]!.token === token
+  );
+}
+
+/** Finds the seat a returning player's token holds, e.g. after a reload. */
+export function rejoinRoom(code: string, token: string) {
+  const room = getRoom(code);
+  const color = seatOf(room, token);
+  if (!color) throw new RoomError("That seat token is not valid in this room", 403);
+  return { color, snapshot: snapshotOf(room) };
+}
+
+/**
+ * Applies `action` for the seat holding `token`. The server is the only
+ * place dice are rolled, and moves must be legal for the dice it rolled.
+ */
+export function actInRoom(
+  code: string,
+  token: string,
+  action: RoomAction,
+  dice: DiceSource = cryptoDice()
+): RoomSnapshot {
+  const room = getRoom(code);
+  const game = room.state;
+  const color = seatOf(room, token);
+  if (!color) throw new RoomError("You have not claimed a seat in this room", 403);
+  if (game.winner) throw new RoomError("The game is over", 409);
+  if (!everyoneSeated(room)) {
+    throw new RoomError("Waiting for every seat to be claimed", 409);
+  }
+  if (game.currentPlayer !== color) throw new RoomError("It is not your turn", 409);
+
+  if (action.type === "roll") {
+    if (game.dice) throw new RoomError("Move a token before rolling again", 409);
+    publish(room, gameReducer(game, roll(dice.roll(game))));
+  } else if (action.type === "move") {
+    if (!game.dice) throw new RoomError("Roll before moving", 409);
+    const legal = computeValidMoves(game, game.dice).moves.some(
+      (m) => m.tokenId === action.tokenId
+    );
+    if (!legal) throw new RoomError(`${action.tokenId} cannot move ${game.dice}`, 409);
+    publish(room, gameReducer(game, move(action.tokenId)));
+  } else {
+    throw new RoomError("Unknown action");
+  }
+  return snapshotOf(room);
+}
+
+/** Posts a message or reaction from the seat holding `token`. */
+export function chatInRoom(code: string, token: string, post: ChatPost): RoomSnapshot {
+  const room = getRoom(code);
+  const color = seatOf(room, token);
+  if (!color) throw new RoomError("Take a seat to chat", 403);
+  const line = chatLineFor(post, color);
+  if (!line) throw new RoomError("Nothing to send");
+  room.chat = addChatLines(room.chat, [line]);
+  publish(room);
+  return snapshotOf(room);
+}
+
+/**
+ * Plays the current turn for a player whose time ran out: rolls if they
+ * haven't, then moves if the roll allows it.
+ */
+export function expireTurn(code: string, dice: DiceSource = cryptoDice()): RoomSnapshot {
+  const room = getRoom(code);
+  let game = room.state;
+  if (game.winner) return snapshotOf(room);
+  const player = findPlayer(game.players, game.currentPlayer);
+  if (!game.dice) game = gameReducer(game, roll(dice.roll(game)));
+  if (game.dice) {
+    const fallback = room.timer?.fallback ?? "first";
+    const tokenId =
+      fallback === "first" ? currentMoves(game)[0]?.tokenId : chooseMove(game, fallback);
+    if (tokenId) game = gameReducer(game, move(tokenId));
+  }
+  publish(room, { ...game, message: `${player.label} ran out of time - ${game.message}` });
+  return snapshotOf(room);
+}
+
+/**
+ * Calls `listener` on every change until the returned function is called.
+ * Passing a seat token marks that seat connected; without one the listener
+ * is a spectator.
+ */
+export function subscribe(code: string, listener: RoomListener, token?: string) {
+  const room = getRoom(code);
+  room.listeners.set(listener, (token && seatOf(room, token)) || null);
+  publish(room);
+  return () => {
+    if (room.listeners.delete(listener)) publish(room);
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Writes public/sw.js after `next build`: the service worker template with
+ * this build's id and every file it needs to run offline.
+ */
+import { existsSync, readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+
+const ROOT = join(__dirname, "..");
+const BUILD_DIR = join(ROOT, ".next");
+const PUBLIC_DIR = join(ROOT, "public");
+
+// Pages that work without the server; online rooms need it anyway.
+const PAGES = ["/", "/tutorial", "/stats"];
+const PUBLIC_FILES = ["/manifest.webmanifest", "/favicon.ico"];
+
+function filesUnder(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    return entry.isDirectory() ? filesUnder(path) : [path];
+  });
+}
+
+if (!existsSync(join(BUILD_DIR, "BUILD_ID"))) {
+  console.error("No build found; run `next build` first.");
+  process.exit(1);
+}
+
+const version = readFileSync(join(BUILD_DIR, "BUILD_ID"), "utf8").trim();
+const staticDir = join(BUILD_DIR, "static");
+const assets = filesUnder(staticDir).map(
+  (file) => `/_next/static/${relative(staticDir, file).split(sep).join("/")}`
+);
+const icons = filesUnder(join(PUBLIC_DIR, "icons")).map(
+  (file) => `/${relative(PUBLIC_DIR, file).split(sep).join("/")}`
+);
+const precache = [...PAGES, ...PUBLIC_FILES, ...icons, ...assets];
+
+const template = readFileSync(join(__dirname, "sw.template.js"), "utf8");
+const worker = template
+  .replace(/^const VERSION = .*$/m, `const VERSION = ${JSON.stringify(version)};`)
+  .replace(/^const PRECACHE = .*$/m, `const PRECACHE = ${JSON.stringify(precache, null, 2)};`);
+writeFileSync(join(PUBLIC_DIR, "sw.js"), worker);
+console.log(`public/sw.js: build ${version}, ${precache.length} files to precache`);
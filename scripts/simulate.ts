@@ -0,0 +1,120 @@
+/**
+ * Plays Ludo headlessly to compare rule sets and strategies.
+ *
+ *   npm run simulate -- --games 5000 --strategy greedy,safe --format csv
+ *
+ * Run with --help for every option.
+ */
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_MAX_TURNS,
+  DEFAULT_RULES,
+  type PlayerColor,
+  type RuleSet,
+  SEAT_ORDER,
+  STRATEGIES,
+  type Strategy,
+  reportToCsv,
+  simulate,
+  validateRules,
+} from "../lib/ludo";
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --games <n>          games to play (default 1000)
+  --seed <text>        base seed; the same seed repeats the same run (default "sim")
+  --seats <colors>     comma-separated seats (default ${SEAT_ORDER.join(",")})
+  --strategy <names>   one strategy for every seat, or one per seat in order (default normal)
+                       strategies: ${STRATEGIES.join(", ")}
+  --first <who>        "roll" for a roll-off each game, or the colour that opens (default roll)
+  --rules <json|file>  rule overrides as JSON, or a path to a JSON file
+  --max-turns <n>      rolls before a game counts as unfinished (default ${DEFAULT_MAX_TURNS})
+  --format <json|csv>  output format (default json)
+`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function count(value: string, name: string) {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) fail(`--${name} must be a whole number above 0`);
+  return n;
+}
+
+function colorsOf(value: string) {
+  const colors = value.split(",").map((c) => c.trim()) as PlayerColor[];
+  const unknown = colors.filter((c) => !SEAT_ORDER.includes(c));
+  if (unknown.length) fail(`Unknown seat colour: ${unknown.join(", ")}`);
+  if (new Set(colors).size !== colors.length) fail("Each colour can only sit once");
+  if (colors.length < 2) fail("At least two seats are needed");
+  return colors;
+}
+
+function rulesOf(value: string | undefined): RuleSet {
+  if (!value) return DEFAULT_RULES;
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(value.trim().startsWith("{") ? value : readFileSync(value, "utf8"));
+  } catch (error) {
+    fail(`Could not read --rules: ${(error as Error).message}`);
+  }
+  const rules = { ...DEFAULT_RULES, ...(overrides as Partial<RuleSet>) };
+  const unknown = Object.keys(rules).filter((key) => !(key in DEFAULT_RULES));
+  const issues = [...unknown.map((key) => `unknown rule ${key}`), ...validateRules(rules, "rules")];
+  if (issues.length) fail(`Bad --rules: ${issues.join("; ")}`);
+  return rules;
+}
+
+const { values } = (() => {
+  try {
+    return parseArgs({
+      options: {
+        games: { type: "string", default: "1000" },
+        seed: { type: "string", default: "sim" },
+        seats: { type: "string", default: SEAT_ORDER.join(",") },
+        strategy: { type: "string", default: "normal" },
+        first: { type: "string", default: "roll" },
+        rules: { type: "string" },
+        "max-turns": { type: "string", default: String(DEFAULT_MAX_TURNS) },
+        format: { type: "string", default: "json" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    fail((error as Error).message);
+  }
+})();
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const colors = colorsOf(values.seats);
+const strategies = values.strategy.split(",").map((s) => s.trim()) as Strategy[];
+const unknownStrategies = strategies.filter((s) => !STRATEGIES.includes(s));
+if (unknownStrategies.length) fail(`Unknown strategy: ${unknownStrategies.join(", ")}`);
+if (strategies.length !== 1 && strategies.length !== colors.length) {
+  fail(`Give one strategy, or one for each of the ${colors.length} seats`);
+}
+const first = values.first as PlayerColor | "roll";
+if (first !== "roll" && !colors.includes(first)) fail(`--first must be "roll" or a seated colour`);
+if (values.format !== "json" && values.format !== "csv") fail("--format must be json or csv");
+const rules = rulesOf(values.rules);
+if (rules.teams && colors.length !== SEAT_ORDER.length) fail("Team play needs all four seats");
+
+const report = simulate({
+  games: count(values.games, "games"),
+  seed: values.seed,
+  rules,
+  seats: colors.map((color, idx) => ({ color, strategy: strategies[idx] ?? strategies[0] })),
+  firstPlayer: first,
+  maxTurns: count(values["max-turns"], "max-turns"),
+});
+
+process.stdout.write(
+  values.format === "csv" ? reportToCsv(report) : `${JSON.stringify(report, null, 2)}\n`
+);
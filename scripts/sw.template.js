@@ -0,0 +1,75 @@
+// Service worker template. `npm run build` writes public/sw.js from this,
+// filling VERSION and PRECACHE in from the build (see build-sw.ts).
+const VERSION = "dev";
+const PRECACHE = [];
+
+const CACHE = `ludo-${VERSION}`;
+const CACHE_PREFIX = "ludo-";
+
+self.addEventListener("install", (event) => {
+  // No skipWaiting here: a new version waits until the page asks for it,
+  // so a game in progress is never swapped out from under the player.
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+async function fromNetworkThenCache(request, fallbackPath) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached =
+      (await cache.match(request, { ignoreSearch: true })) ??
+      (fallbackPath && (await cache.match(fallbackPath)));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function fromCacheThenNetwork(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+  // Rooms only make sense live, and RSC payloads vary by headers the cache ignores.
+  if (url.pathname.startsWith("/api/") || url.searchParams.has("_rsc") || request.headers.has("RSC")) {
+    return;
+  }
+  if (request.mode === "navigate") {
+    // Fresh pages when online; offline, the cached copy or the game itself.
+    event.respondWith(fromNetworkThenCache(request, "/"));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    // Build assets have hashed names, so a cached copy is never stale.
+    event.respondWith(fromCacheThenNetwork(request));
+  } else {
+    event.respondWith(fromNetworkThenCache(request));
+  }
+});